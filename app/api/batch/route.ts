@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { MAX_BATCH_ITEMS, countBatch } from '@/lib/batchCounting';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+async function countBatchRequest(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const items = jsonData.items;
+        const model = jsonData.model || DEFAULT_MODEL;
+
+        if (!getModel(model)) {
+            throw new ApiError('invalid_model', `Unknown model: ${model}`);
+        }
+        if (!Array.isArray(items) || items.length === 0) {
+            throw new ApiError('invalid_request', '`items` must be a non-empty array');
+        }
+        if (items.length > MAX_BATCH_ITEMS) {
+            throw new ApiError('invalid_request', `A batch can hold at most ${MAX_BATCH_ITEMS} items`);
+        }
+
+        // Per-item failures are reported inside the result, so the batch
+        // itself still succeeds.
+        return Response.json(await countBatch(items, model));
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Batch token counting error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => countBatchRequest(req));
+}
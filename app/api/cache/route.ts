@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { parseMessagesPayload } from '@/lib/tokenCounting';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { simulatePayloadCaching, simulateTextCaching } from '@/lib/cacheSimulation';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+async function simulateCaching(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const model = jsonData.model || DEFAULT_MODEL;
+
+        if (!getModel(model)) {
+            throw new ApiError('invalid_model', `Unknown model: ${model}`);
+        }
+
+        const payload = parseMessagesPayload(jsonData);
+        if (payload) {
+            return Response.json(await simulatePayloadCaching(payload, model));
+        }
+        if (typeof jsonData.text !== 'string' || !jsonData.text.trim()) {
+            throw new ApiError('invalid_request', 'Send either `text` or a `messages` payload');
+        }
+        return Response.json(await simulateTextCaching(jsonData.text, model));
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Cache simulation error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => simulateCaching(req));
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { ChunkBoundary, chunkText } from '@/lib/chunking';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+const BOUNDARIES: ChunkBoundary[] = ['heading', 'paragraph', 'sentence'];
+
+async function chunkRequest(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const text = jsonData.text;
+        const model = jsonData.model || DEFAULT_MODEL;
+        const maxTokens = jsonData.maxTokens;
+        const overlapTokens = jsonData.overlapTokens ?? 0;
+        const boundary = jsonData.boundary ?? 'paragraph';
+
+        if (!getModel(model)) {
+            throw new ApiError('invalid_model', `Unknown model: ${model}`);
+        }
+        if (typeof text !== 'string' || !text.trim()) {
+            throw new ApiError('invalid_request', '`text` must be a non-empty string');
+        }
+        if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 1) {
+            throw new ApiError('invalid_request', '`maxTokens` must be a positive integer');
+        }
+        if (typeof overlapTokens !== 'number' || !Number.isInteger(overlapTokens) || overlapTokens < 0 || overlapTokens >= maxTokens) {
+            throw new ApiError('invalid_request', '`overlapTokens` must be a non-negative integer below `maxTokens`');
+        }
+        if (!BOUNDARIES.includes(boundary as ChunkBoundary)) {
+            throw new ApiError('invalid_request', `\`boundary\` must be one of ${BOUNDARIES.join(', ')}`);
+        }
+
+        const chunks = await chunkText(text, model, { maxTokens, overlapTokens, boundary: boundary as ChunkBoundary });
+        return Response.json({ model, maxTokens, overlapTokens, boundary, chunks });
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Chunking error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => chunkRequest(req));
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { diffPrompt } from '@/lib/promptDiff';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+async function diffVersions(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const { before, after } = jsonData;
+        const model = jsonData.model || DEFAULT_MODEL;
+
+        if (!getModel(model)) {
+            throw new ApiError('invalid_model', `Unknown model: ${model}`);
+        }
+        if (typeof before !== 'string' || typeof after !== 'string') {
+            throw new ApiError('invalid_request', '`before` and `after` must be strings');
+        }
+
+        return Response.json(await diffPrompt(before, after, model));
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Prompt diff error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => diffVersions(req));
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { checkContextFit } from '@/lib/contextFit';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+// Output reservation used when the request doesn't set `maxTokens`
+const DEFAULT_MAX_TOKENS = 4096;
+
+async function checkFit(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const text = jsonData.text;
+        const modelId = jsonData.model || DEFAULT_MODEL;
+        const maxTokens = jsonData.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+        const model = getModel(modelId);
+        if (!model) {
+            throw new ApiError('invalid_model', `Unknown model: ${modelId}`);
+        }
+        if (typeof text !== 'string' || !text.trim()) {
+            throw new ApiError('invalid_request', '`text` must be a non-empty string');
+        }
+        if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 0) {
+            throw new ApiError('invalid_request', '`maxTokens` must be a non-negative integer');
+        }
+
+        return Response.json(await checkContextFit(text, model, maxTokens));
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Context fit error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => checkFit(req));
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { inspectClaude, inspectGPT4o } from '@/lib/tokenInspection';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+async function inspectTokens(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const text = jsonData.text;
+        const model = jsonData.model || DEFAULT_MODEL;
+        const tokenizer = jsonData.tokenizer || 'gpt-4o';
+
+        if (typeof text !== 'string' || !text) {
+            throw new ApiError('invalid_request', '`text` must be a non-empty string');
+        }
+        if (tokenizer !== 'gpt-4o' && tokenizer !== 'claude') {
+            throw new ApiError('invalid_request', '`tokenizer` must be "gpt-4o" or "claude"');
+        }
+        if (tokenizer === 'claude' && !getModel(model)) {
+            throw new ApiError('invalid_model', `Unknown model: ${model}`);
+        }
+
+        const inspection = tokenizer === 'claude'
+            ? await inspectClaude(text, model)
+            : inspectGPT4o(text);
+        return Response.json(inspection);
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Token inspection error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => inspectTokens(req));
+}
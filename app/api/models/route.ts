@@ -0,0 +1,10 @@
+import { CLAUDE_MODELS, COMPARISON_PROVIDERS, DEFAULT_MODEL, ModelRegistry } from '@/lib/models';
+
+export async function GET() {
+    const registry: ModelRegistry = {
+        defaultModel: DEFAULT_MODEL,
+        models: CLAUDE_MODELS,
+        comparisonProviders: COMPARISON_PROVIDERS,
+    };
+    return Response.json(registry);
+}
@@ -1,238 +1,312 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { NextRequest } from 'next/server';
-import { encodingForModel } from 'js-tiktoken';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+    TOKEN_COUNTING_BETAS,
+    CountPayload,
+    CachedCount,
+    parseMessagesPayload,
+    textPayload,
+    pdfPayload,
+    userTurnPayload,
+    countClaudeTokens,
+    countClaudeTokensInParts,
+    countAcrossModels,
+    estimateFields,
+    getGPT4oTokenCount,
+    getGeminiTokenCount,
+} from '@/lib/tokenCounting';
+import { DEFAULT_MODEL, unknownModels } from '@/lib/models';
+import {
+    EXTRACTION_PREVIEW_CHARS,
+    Upload,
+    readUploads,
+    uploadText,
+    uploadRawText,
+    uploadBlock,
+    uploadBetas,
+    countUploads,
+    countConversions,
+} from '@/lib/uploads';
+import { PDFDocument } from 'pdf-lib';
+import { PageRange, loadPdf, parsePageRanges, splitOversizedPdf, countPdfPages } from '@/lib/pdfPages';
+import { ImageEstimate, readImageDimensions, estimateImageTokens } from '@/lib/imageEstimate';
+import {
+    CodebaseArchive,
+    DEFAULT_TOP_FILES,
+    isZipUpload,
+    readCodebaseArchive,
+    codebasePrompt,
+    countCodebase,
+} from '@/lib/codebase';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseCountForm, parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
 
-// Ensure API keys are present
-if (!process.env.ANTHROPIC_API_KEY) {
-    throw new Error('missing ANTHROPIC_API_KEY');
-}
-
-if (!process.env.GEMINI_API_KEY) {
-    console.warn('GEMINI_API_KEY not found - Gemini token counting will be disabled');
-}
-
-// Default model to use if none is provided
-const DEFAULT_MODEL = 'claude-opus-4-7';
-
-// Function to get GPT-4o token count
-function getGPT4oTokenCount(text: string) {
-    try {
-        // Use the 'gpt-4o' encoder which is used for GPT-4o as well
-        const encoder = encodingForModel('gpt-4o');
-        return encoder.encode(text).length;
-    } catch (error) {
-        console.error('GPT-4o tokenization error:', error);
-        return null;
-    }
-}
-
-async function getGeminiTokenCount(text: string) {
-    try {
-        if (!process.env.GEMINI_API_KEY) return null;
-
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-        
-        const result = await model.countTokens({
-            contents: [{ role: 'user', parts: [{ text }] }]
-        });
-        
-        return result.totalTokens;
-    } catch (error) {
-        console.error('Gemini tokenization error:', error);
-        return null;
-    }
-}
-
-export async function POST(req: NextRequest) {
+async function countTokens(req: NextRequest) {
     try {
-        const anthropic = new Anthropic({
-            apiKey: process.env.ANTHROPIC_API_KEY,
-        });
-        
         let text = '';
         let fileChars = 0;
         let model = DEFAULT_MODEL;
-        let comparisonModel: string | null = null;
-        let gpt4oTokens = null;
-        let geminiTokens = null;
+        let comparisonModels: string[] = [];
+        let gpt4o: CachedCount | null = null;
+        let gemini: CachedCount | null = null;
+        let payload: CountPayload | null = null;
+        let betas = TOKEN_COUNTING_BETAS;
+        let models: string[] | null = null;
+        let fileUploads: Upload[] | null = null;
+        let codebase: CodebaseArchive | null = null;
+        let extracted: Upload | null = null;
+        let rawText: string | null = null;
+        let pdf: PDFDocument | null = null;
+        let pageRanges: PageRange[] = [];
+        let perPage = false;
+        // Set when the payload is over the API's limits and has to be
+        // counted in several requests
+        let payloadParts: CountPayload[] | null = null;
+        let imageEstimates: { name: string; estimate: ImageEstimate | null }[] | null = null;
+        let convertedImages: Upload[] | null = null;
+        let topFiles = DEFAULT_TOP_FILES;
 
         // Determine request type based on content-type header
         const contentType = req.headers.get('content-type') || '';
 
         if (contentType.includes('multipart/form-data')) {
             // Handle file upload
-            const formData = await req.formData();
-            const file = formData.get('file') as File | null;
-            const formModel = formData.get('model') as string | null;
-            const formComparisonModel = formData.get('comparisonModel') as string | null;
-            const fileType = formData.get('fileType') as string | null;
-
-            if (formModel) {
-                model = formModel;
+            const form = await parseCountForm(req, contentType);
+            const { files, fileTypes } = form;
+            perPage = form.pages;
+
+            if (form.model) {
+                model = form.model;
             }
-            if (formComparisonModel) {
-                comparisonModel = formComparisonModel;
+            comparisonModels = form.comparisonModels;
+            if (form.models.length > 0) {
+                models = form.models;
             }
-            
-            if (file) {
-                const arrayBuffer = await file.arrayBuffer();
-                const fileContent = new Uint8Array(arrayBuffer);
-                fileChars = fileContent.length;
-                
-                if (fileType === 'pdf') {
-                    // Convert PDF to base64
-                    const base64Content = Buffer.from(fileContent).toString('base64');
-
-                    const pdfMessages = [{
-                        role: 'user' as const,
-                        content: [
-                            {
-                                type: 'document' as const,
-                                source: {
-                                    type: 'base64' as const,
-                                    media_type: 'application/pdf' as const,
-                                    data: base64Content
-                                }
-                            }
-                        ]
-                    }];
-
-                    // Count tokens using Anthropic API for PDF
-                    const [count, comparison] = await Promise.all([
-                        anthropic.beta.messages.countTokens({
-                            betas: ["token-counting-2024-11-01", "pdfs-2024-09-25"],
-                            model: model,
-                            messages: pdfMessages
-                        }),
-                        comparisonModel
-                            ? anthropic.beta.messages.countTokens({
-                                betas: ["token-counting-2024-11-01", "pdfs-2024-09-25"],
-                                model: comparisonModel,
-                                messages: pdfMessages
-                            })
-                            : Promise.resolve(null)
-                    ]);
-
-                    return Response.json({
-                        ...count,
-                        fileChars,
-                        model: model,
-                        gpt4oTokens,
-                        geminiTokens,
-                        comparisonModel,
-                        comparisonTokens: comparison?.input_tokens ?? null
+            if (form.top !== null) {
+                topFiles = form.top;
+            }
+
+            if (files.some((file, i) => isZipUpload(file, fileTypes[i]))) {
+                if (files.length > 1) {
+                    throw new ApiError('invalid_request', 'Upload a .zip archive on its own');
+                }
+
+                // Codebase archive: count the concatenated prompt as text, plus
+                // a per-file report. Exclude globs may be comma or newline separated.
+                const exclude = form.exclude
+                    .flatMap(value => value.split(/[,\n]/))
+                    .map(pattern => pattern.trim())
+                    .filter(Boolean);
+                codebase = readCodebaseArchive(new Uint8Array(await files[0].arrayBuffer()), exclude);
+                text = codebasePrompt(codebase.files);
+
+                // `format=prompt` exports the concatenated prompt instead of counting it
+                if (form.format === 'prompt') {
+                    return new Response(text, {
+                        headers: {
+                            'Content-Type': 'text/plain; charset=utf-8',
+                            'Content-Disposition': `attachment; filename="${files[0].name.replace(/\.zip$/i, '')}-prompt.txt"`
+                        }
                     });
                 }
-                else if (fileType === 'image') {
-                    // Handle image file
-                    const base64Content = Buffer.from(fileContent).toString('base64');
-
-                    // Ensure the media type is one of the supported formats
-                    let mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' = 'image/jpeg';
-
-                    if (file.type === 'image/png') mediaType = 'image/png';
-                    else if (file.type === 'image/gif') mediaType = 'image/gif';
-                    else if (file.type === 'image/webp') mediaType = 'image/webp';
-                    // Default to JPEG for any other format
-
-                    const imageMessages = [{
-                        role: 'user' as const,
-                        content: [
-                            {
-                                type: 'image' as const,
-                                source: {
-                                    type: 'base64' as const,
-                                    media_type: mediaType,
-                                    data: base64Content
-                                }
-                            }
-                        ]
-                    }];
-
-                    // Count tokens for image using Anthropic API
-                    const [count, comparison] = await Promise.all([
-                        anthropic.beta.messages.countTokens({
-                            betas: ["token-counting-2024-11-01"],
-                            model: model,
-                            messages: imageMessages
-                        }),
-                        comparisonModel
-                            ? anthropic.beta.messages.countTokens({
-                                betas: ["token-counting-2024-11-01"],
-                                model: comparisonModel,
-                                messages: imageMessages
-                            })
-                            : Promise.resolve(null)
-                    ]);
-
-                    return Response.json({
-                        ...count,
-                        fileChars,
-                        model: model,
-                        gpt4oTokens,
-                        geminiTokens,
-                        comparisonModel,
-                        comparisonTokens: comparison?.input_tokens ?? null
+
+                fileChars = text.length;
+                gpt4o = await getGPT4oTokenCount(text);
+                gemini = await getGeminiTokenCount(text);
+            } else {
+                const uploads = await readUploads(files, fileTypes, { downscaleImages: form.downscale });
+                // Byte counts mean nothing for images, so they don't add characters
+                fileChars = uploads.reduce((sum, upload) => sum + (upload.kind === 'image' ? 0 : upload.content.length), 0);
+
+                const images = uploads.filter(upload => upload.kind === 'image');
+                if (images.length > 0) {
+                    // Offline estimates from the image headers as uploaded, to
+                    // set next to the API count
+                    imageEstimates = images.map(upload => {
+                        const dimensions = readImageDimensions(upload.conversion?.raw ?? upload.content);
+                        return { name: upload.name, estimate: dimensions ? estimateImageTokens(dimensions) : null };
                     });
+                    if (images.some(upload => upload.conversion)) {
+                        convertedImages = images;
+                    }
                 }
-                else {
+
+                if (uploads.length === 1 && uploads[0].kind === 'text') {
                     // For text files, convert to UTF-8 string
-                    text = new TextDecoder().decode(fileContent);
-                    
+                    text = uploadText(uploads[0]);
+                    if (uploads[0].extraction) {
+                        // Keep the raw file around to compare against the extracted text
+                        extracted = uploads[0];
+                        rawText = uploadRawText(uploads[0]);
+                    }
+
                     // For text files, we can attempt to get token counts from other models
-                    gpt4oTokens = await getGPT4oTokenCount(text);
-                    geminiTokens = await getGeminiTokenCount(text);
+                    gpt4o = await getGPT4oTokenCount(text);
+                    gemini = await getGeminiTokenCount(text);
+                } else if (uploads.length > 0) {
+                    // PDFs, images and multi-file uploads go out as one user turn
+                    // with a content block per file
+                    payload = userTurnPayload(uploads.map(uploadBlock));
+                    betas = uploadBetas(uploads);
+
+                    if (uploads.length === 1 && uploads[0].kind === 'pdf') {
+                        // Split locally so oversized PDFs can still be counted
+                        // and pages can be counted one by one
+                        pdf = await loadPdf(uploads[0].content);
+                        pageRanges = parsePageRanges(form.pageRanges, pdf.getPageCount());
+                        const parts = await splitOversizedPdf(pdf, uploads[0].content.length);
+                        if (parts) {
+                            payloadParts = parts.map(pdfPayload);
+                        }
+                    }
+
+                    if (uploads.every(upload => upload.kind === 'text')) {
+                        const combinedText = uploads.map(uploadText).join('\n\n');
+                        gpt4o = await getGPT4oTokenCount(combinedText);
+                        gemini = await getGeminiTokenCount(combinedText);
+                    }
+                    if (uploads.length > 1) {
+                        fileUploads = uploads;
+                    }
                 }
             }
         } else {
             // Handle direct text input (JSON)
-            const jsonData = await req.json();
-            text = jsonData.text || '';
+            const jsonData = await parseJsonBody(req);
             model = jsonData.model || DEFAULT_MODEL;
-            comparisonModel = jsonData.comparisonModel || null;
+            comparisonModels = [...(jsonData.comparisonModels ?? []), jsonData.comparisonModel].filter((id): id is string => !!id);
+            models = jsonData.models ?? null;
+
+            payload = parseMessagesPayload(jsonData);
+
+            if (!payload) {
+                text = jsonData.text || '';
 
-            // Get token counts from other models for text input
-            gpt4oTokens = await getGPT4oTokenCount(text);
-            geminiTokens = await getGeminiTokenCount(text);
+                // Get token counts from other models for text input
+                gpt4o = await getGPT4oTokenCount(text);
+                gemini = await getGeminiTokenCount(text);
+            }
+        }
+
+        // Each comparison once, and never the model already being counted
+        comparisonModels = comparisonModels.filter((id, i) => id !== model && comparisonModels.indexOf(id) === i);
+
+        const unknown = unknownModels([model, ...comparisonModels, ...(models ?? [])]);
+        if (unknown.length > 0) {
+            throw new ApiError('invalid_model', `Unknown model: ${unknown.join(', ')}`);
         }
 
-        const textMessages = [{
-            role: 'user' as const,
-            content: text
-        }];
-
-        // Count tokens using Anthropic API for text, plus optional comparison model
-        const [count, comparison] = await Promise.all([
-            anthropic.beta.messages.countTokens({
-                betas: ["token-counting-2024-11-01"],
-                model: model,
-                messages: textMessages
-            }),
-            comparisonModel
-                ? anthropic.beta.messages.countTokens({
-                    betas: ["token-counting-2024-11-01"],
-                    model: comparisonModel,
-                    messages: textMessages
-                })
+        // Files and full Messages payloads are counted as given; plain text
+        // is wrapped in a single user turn.
+        const countPayload: CountPayload = payload ?? textPayload(text);
+        const countFor = (countModel: string) => payloadParts
+            ? countClaudeTokensInParts(countModel, payloadParts, betas)
+            : countClaudeTokens(countModel, countPayload, betas);
+
+        // Count tokens using Anthropic API, plus optional comparison models
+        // and model matrix
+        const [count, comparisons, modelCounts, fileCounts, codebaseReport, rawCount, pdfBreakdown, conversions] = await Promise.all([
+            countFor(model),
+            comparisonModels.length > 0
+                ? countAcrossModels(comparisonModels, payloadParts ?? countPayload, betas)
+                : Promise.resolve(null),
+            models
+                ? countAcrossModels(models, payloadParts ?? countPayload, betas)
+                : Promise.resolve(null),
+            fileUploads
+                ? countUploads(model, fileUploads)
+                : Promise.resolve(null),
+            codebase
+                ? countCodebase(model, codebase, topFiles)
+                : Promise.resolve(null),
+            rawText
+                ? countClaudeTokens(model, textPayload(rawText))
+                : Promise.resolve(null),
+            pdf && (perPage || pageRanges.length > 0)
+                ? countPdfPages(model, pdf, perPage, pageRanges)
+                : Promise.resolve(null),
+            convertedImages
+                ? countConversions(model, convertedImages)
                 : Promise.resolve(null)
         ]);
 
+        const comparison = comparisons?.[0] ?? null;
+
         return Response.json({
-            ...count,
+            input_tokens: count.input_tokens,
             fileChars,
             model: model,
-            gpt4oTokens,
-            geminiTokens,
-            comparisonModel,
-            comparisonTokens: comparison?.input_tokens ?? null
+            gpt4oTokens: gpt4o?.tokens ?? null,
+            geminiTokens: gemini?.tokens ?? null,
+            // Why a comparison provider's count is null, when it was attempted
+            providerErrors: {
+                gpt4oTokens: gpt4o?.error ?? null,
+                geminiTokens: gemini?.error ?? null
+            },
+            // One row per comparison model, each with its own `cached` and
+            // `estimated` flags; a model that couldn't count it has an `error`
+            comparisons,
+            // The first comparison, for clients from before `comparisons`
+            comparisonModel: comparison?.model ?? null,
+            comparisonTokens: comparison?.input_tokens ?? null,
+            modelCounts,
+            // Per-file counts for multi-file uploads, each file counted alone
+            files: fileCounts,
+            // Directory tree and heaviest files for zip archive uploads
+            codebase: codebaseReport,
+            // How a single Office or HTML document was turned into text, with
+            // the raw file's size (and token count, for markup) to compare
+            extraction: extracted?.extraction ? {
+                method: extracted.extraction.method,
+                rawBytes: extracted.extraction.raw.length,
+                rawTokens: rawCount?.input_tokens ?? null,
+                rawEstimated: rawCount?.estimated ?? false,
+                extractedChars: text.length,
+                preview: text.slice(0, EXTRACTION_PREVIEW_CHARS)
+            } : null,
+            // Dimensions, effective resized size and estimated tokens per image
+            images: imageEstimates,
+            // Images re-encoded (BMP, TIFF) or downscaled before counting,
+            // with their count as uploaded and as sent
+            conversions,
+            // Page count for a single PDF, how many requests it took, and the
+            // per-page and per-range counts when asked for
+            pdf: pdf ? {
+                pageCount: pdf.getPageCount(),
+                parts: payloadParts?.length ?? 1,
+                truncated: pdfBreakdown?.truncated ?? false,
+                pages: pdfBreakdown?.pages ?? null,
+                ranges: pdfBreakdown?.ranges ?? null
+            } : null,
+            // Which of the figures above were served from the result cache
+            cached: {
+                input_tokens: count.cached,
+                comparisonTokens: comparison?.cached ?? null,
+                gpt4oTokens: gpt4o?.cached ?? null,
+                geminiTokens: gemini?.cached ?? null
+            },
+            // Which Claude figures are local estimates (no API key, or the
+            // API was unavailable), each with its ± margin in tokens. Rows in
+            // `comparisons`, `modelCounts`, `files`, `pdf` and `conversions`
+            // carry their own `estimated` flag.
+            estimated: {
+                input_tokens: count.estimated ? estimateFields(count) : null,
+                comparisonTokens: comparison?.estimated ? { estimated: true, margin: comparison.margin } : null
+            }
         });
     } catch (error) {
-        console.error('Token counting error:', error);
-        return Response.json(
-            { error: 'Failed to count tokens' },
-            { status: 500 }
-        );
+        // Typed errors carry a stable `code` and the matching status; only
+        // failures on our side or upstream are worth logging
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Token counting error:', error);
+        }
+        return errorResponse(apiError);
     }
+}
+
+// Every request takes a token from its client's bucket first, so one script
+// looping on the route can't use up the shared Anthropic rate limit
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => countTokens(req));
 }
\ No newline at end of file
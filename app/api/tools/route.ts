@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { ToolDefinition, parseMessagesPayload } from '@/lib/tokenCounting';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+import { analyzeTools } from '@/lib/toolAnalysis';
+import { ApiError, toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+async function analyzeToolsRequest(req: NextRequest) {
+    try {
+        const jsonData = await parseJsonBody(req);
+        const model = jsonData.model || DEFAULT_MODEL;
+        const tools = jsonData.tools as ToolDefinition[] | undefined;
+
+        if (!getModel(model)) {
+            throw new ApiError('invalid_model', `Unknown model: ${model}`);
+        }
+        if (!Array.isArray(tools) || tools.length === 0) {
+            throw new ApiError('invalid_request', '`tools` must be a non-empty array');
+        }
+
+        // Tools are measured against the caller's own conversation when one
+        // is given, so the overhead figures match their real requests.
+        const payload = parseMessagesPayload(jsonData);
+        const base = payload ? { messages: payload.messages, system: payload.system, thinking: payload.thinking } : undefined;
+
+        const analysis = await analyzeTools(model, tools, base);
+        return Response.json(analysis);
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Tool analysis error:', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    return withRateLimit(req, () => analyzeToolsRequest(req));
+}
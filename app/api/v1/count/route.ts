@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { authenticate } from '@/lib/apiKeys';
+import { countV1 } from '@/lib/apiV1';
+import { toApiError, errorResponse } from '@/lib/apiErrors';
+import { parseJsonBody } from '@/lib/requestValidation';
+import { withRateLimit } from '@/lib/rateLimit';
+
+async function countRequest(req: NextRequest) {
+    try {
+        const body = await parseJsonBody(req);
+        return Response.json(await countV1(body));
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('Token counting error (v1):', error);
+        }
+        return errorResponse(apiError);
+    }
+}
+
+// Versioned, documented counterpart of POST /api for other services. Needs
+// an API key from the keys file; see lib/openapi.ts for the contract.
+export async function POST(req: NextRequest) {
+    let apiKey;
+    try {
+        apiKey = await authenticate(req);
+    } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error('API key check error (v1):', error);
+        }
+        return errorResponse(apiError);
+    }
+    return withRateLimit(req, () => countRequest(req), apiKey);
+}
@@ -0,0 +1,5 @@
+import { openApiDocument } from '@/lib/openapi';
+
+export async function GET() {
+    return Response.json(openApiDocument);
+}
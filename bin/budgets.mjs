@@ -0,0 +1,280 @@
+// Prompt budgets: count the prompt files a manifest lists against their
+// models, snapshot the counts and report what changed since the last
+// snapshot. The manifest (prompt-budgets.json by default) looks like
+//
+//   {
+//     "snapshot": "prompt-budgets.snapshot.json",
+//     "thresholdPercent": 5,
+//     "models": ["claude-sonnet-4-6"],
+//     "prompts": [
+//       { "name": "support-agent", "path": "prompts/support.md", "maxTokens": 6000 },
+//       { "path": "prompts/triage.md", "models": ["claude-haiku-4-5-20251001"] }
+//     ]
+//   }
+//
+// Paths are relative to the manifest. A prompt is counted with its own
+// `models`, else the manifest's, else the server's default model.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+    EXIT_OK,
+    EXIT_OVER_BUDGET,
+    UsageError,
+    decodeText,
+    request,
+    countText,
+    mapWithConcurrency,
+    COUNT_CONCURRENCY,
+} from './client.mjs';
+import { startLocalServer } from './localServer.mjs';
+
+const DEFAULT_MANIFEST = 'prompt-budgets.json';
+const DEFAULT_SNAPSHOT = 'prompt-budgets.snapshot.json';
+const DEFAULT_THRESHOLD_PERCENT = 5;
+
+// Bumped if the snapshot layout changes
+const SNAPSHOT_VERSION = 1;
+
+const isStringArray = (value) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+async function readManifest(file) {
+    let manifest;
+    try {
+        manifest = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        throw new UsageError(error.code === 'ENOENT'
+            ? `No manifest at ${file}; create one or pass --manifest`
+            : `Can't read ${file}: ${error.message}`);
+    }
+
+    const problem = (message) => new UsageError(`${file}: ${message}`);
+    if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.prompts)) {
+        throw problem('needs a `prompts` array');
+    }
+    if (manifest.snapshot !== undefined && typeof manifest.snapshot !== 'string') {
+        throw problem('`snapshot` must be a file path');
+    }
+    if (manifest.thresholdPercent !== undefined && !(manifest.thresholdPercent >= 0)) {
+        throw problem('`thresholdPercent` must be a non-negative number');
+    }
+    if (manifest.models !== undefined && !isStringArray(manifest.models)) {
+        throw problem('`models` must be an array of model IDs');
+    }
+    const names = new Set();
+    manifest.prompts.forEach((prompt, i) => {
+        if (!prompt || typeof prompt.path !== 'string') throw problem(`prompts[${i}] needs a \`path\``);
+        if (prompt.name !== undefined && typeof prompt.name !== 'string') throw problem(`prompts[${i}].name must be a string`);
+        if (prompt.models !== undefined && !isStringArray(prompt.models)) throw problem(`prompts[${i}].models must be an array of model IDs`);
+        if (prompt.maxTokens !== undefined && !(Number.isInteger(prompt.maxTokens) && prompt.maxTokens > 0)) {
+            throw problem(`prompts[${i}].maxTokens must be a positive integer`);
+        }
+        const name = prompt.name ?? prompt.path;
+        if (names.has(name)) throw problem(`more than one prompt is named ${name}`);
+        names.add(name);
+    });
+    return manifest;
+}
+
+async function readSnapshot(file) {
+    try {
+        const snapshot = JSON.parse(await fs.readFile(file, 'utf8'));
+        if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.counts)) {
+            throw new UsageError(`${file} isn't a version ${SNAPSHOT_VERSION} budget snapshot`);
+        }
+        return snapshot;
+    } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        if (error instanceof UsageError) throw error;
+        throw new UsageError(`Can't read ${file}: ${error.message}`);
+    }
+}
+
+// Count every prompt against each of its models
+async function countPrompts(server, manifest, baseDir) {
+    const registry = await request(server, 'api/models');
+    const jobs = manifest.prompts.flatMap(prompt =>
+        (prompt.models ?? manifest.models ?? [registry.defaultModel]).map(model => ({ prompt, model }))
+    );
+    const unknown = jobs.map(job => job.model).filter(model => !registry.models.some(m => m.id === model));
+    if (unknown.length > 0) {
+        throw new UsageError(`Unknown model ${[...new Set(unknown)].join(', ')}. Known models: ${registry.models.map(m => m.id).join(', ')}`);
+    }
+
+    const texts = new Map();
+    const readPrompt = (file) => {
+        if (!texts.has(file)) {
+            texts.set(file, fs.readFile(path.resolve(baseDir, file)).then(
+                (content) => {
+                    const text = decodeText(content);
+                    if (text === null) throw new UsageError(`${file} isn't a text file`);
+                    return text;
+                },
+                () => { throw new UsageError(`Can't read prompt ${file}`); }
+            ));
+        }
+        return texts.get(file);
+    };
+
+    return mapWithConcurrency(jobs, COUNT_CONCURRENCY, async ({ prompt, model }) => {
+        const result = await countText(server, model, await readPrompt(prompt.path));
+        return {
+            name: prompt.name ?? prompt.path,
+            path: prompt.path,
+            model,
+            tokens: result.content_tokens,
+            estimated: result.estimated,
+            margin: result.margin,
+        };
+    });
+}
+
+const countKey = (count) => `${count.name}\u0000${count.model}`;
+
+// Line the current counts up with the previous snapshot's. A prompt regresses
+// when it grew by more than `thresholdPercent`, and by more than the margins
+// of any estimates involved so estimate noise isn't flagged. Regressing is
+// tracked apart from the status, so a prompt that's also over budget still
+// counts as a regression.
+function compare(previous, current, manifest, thresholdPercent) {
+    const ceilings = new Map(manifest.prompts.map(prompt => [prompt.name ?? prompt.path, prompt.maxTokens ?? null]));
+    const before = new Map((previous?.counts ?? []).map(count => [countKey(count), count]));
+
+    const rows = current.map(count => {
+        const old = before.get(countKey(count));
+        before.delete(countKey(count));
+        const maxTokens = ceilings.get(count.name) ?? null;
+        const change = old ? count.tokens - old.tokens : null;
+        const changePercent = old && old.tokens > 0 ? (change / old.tokens) * 100 : null;
+        const noise = (count.margin ?? 0) + (old?.margin ?? 0);
+
+        const regressed = !!old && change > noise && (changePercent === null || changePercent > thresholdPercent);
+        let status = old ? 'ok' : 'new';
+        if (regressed) status = 'regression';
+        if (maxTokens !== null && count.tokens > maxTokens) status = 'over-budget';
+        return {
+            name: count.name,
+            model: count.model,
+            previous: old?.tokens ?? null,
+            current: count.tokens,
+            change,
+            changePercent,
+            maxTokens,
+            estimated: count.estimated || (old?.estimated ?? false),
+            status,
+            regressed,
+        };
+    });
+    before.forEach(old => rows.push({
+        name: old.name,
+        model: old.model,
+        previous: old.tokens,
+        current: null,
+        change: null,
+        changePercent: null,
+        maxTokens: null,
+        estimated: old.estimated,
+        status: 'removed',
+        regressed: false,
+    }));
+    return rows;
+}
+
+const formatNumber = (n) => n.toLocaleString('en-US');
+
+const formatChange = (row) => {
+    if (row.change === null) return '';
+    const sign = row.change > 0 ? '+' : '';
+    const percent = row.changePercent === null ? '' : ` (${sign}${row.changePercent.toFixed(1)}%)`;
+    return `${sign}${formatNumber(row.change)}${percent}`;
+};
+
+const STATUS_LABELS = {
+    'over-budget': '**over budget**',
+    regression: '**regression**',
+    new: 'new',
+    removed: 'removed',
+    ok: 'ok',
+};
+
+function markdownReport(report) {
+    const lines = [
+        '## Prompt token budgets',
+        '',
+        report.previousAt
+            ? `Compared with the snapshot from ${report.previousAt}; growth over ${report.thresholdPercent}% is a regression.`
+            : 'No previous snapshot; these counts are the new baseline.',
+        '',
+        '| Prompt | Model | Previous | Current | Change | Budget | Status |',
+        '| --- | --- | ---: | ---: | ---: | ---: | --- |',
+    ];
+    report.rows.forEach(row => {
+        const approx = row.estimated ? '≈' : '';
+        lines.push(`| ${[
+            row.name.replace(/\|/g, '\\|'),
+            row.model,
+            row.previous === null ? '' : `${approx}${formatNumber(row.previous)}`,
+            row.current === null ? '' : `${approx}${formatNumber(row.current)}`,
+            formatChange(row),
+            row.maxTokens === null ? '' : formatNumber(row.maxTokens),
+            row.status === 'over-budget' && row.regressed
+                ? `${STATUS_LABELS['over-budget']}, ${STATUS_LABELS.regression}`
+                : STATUS_LABELS[row.status],
+        ].join(' | ')} |`);
+    });
+    lines.push('', `${report.regressions} regression${report.regressions === 1 ? '' : 's'}, ${report.overBudget} over budget.`);
+    if (report.snapshotKept) {
+        lines.push('', 'The snapshot was left as it was so the regressions stay visible; rerun with --update to accept them.');
+    }
+    if (report.rows.some(row => row.estimated)) {
+        lines.push('', '≈ Local estimates rather than API counts; changes within their margin aren\'t flagged.');
+    }
+    return lines.join('\n');
+}
+
+export async function budgets(options) {
+    if (options.check && options.update) {
+        throw new UsageError('--check and --update can\'t be used together');
+    }
+    const manifestFile = options.manifest ?? DEFAULT_MANIFEST;
+    const manifest = await readManifest(manifestFile);
+    const baseDir = path.dirname(manifestFile);
+    const snapshotFile = options.snapshot ?? path.join(baseDir, manifest.snapshot ?? DEFAULT_SNAPSHOT);
+    const thresholdPercent = options.thresholdPercent ?? manifest.thresholdPercent ?? DEFAULT_THRESHOLD_PERCENT;
+    const previous = await readSnapshot(snapshotFile);
+
+    // Count with the configured server, or run the app locally for the job
+    const local = options.server ? null : await startLocalServer({ offline: options.offline });
+    let counts;
+    try {
+        counts = await countPrompts(local ?? options, manifest, baseDir);
+    } finally {
+        await local?.stop();
+    }
+
+    const rows = compare(previous, counts, manifest, thresholdPercent);
+    const regressions = rows.filter(row => row.regressed).length;
+
+    // Rewriting an unchanged snapshot would only churn its timestamp, and
+    // taking in regressions unasked would hide them from the next run
+    const changed = JSON.stringify(previous?.counts) !== JSON.stringify(counts);
+    const snapshotKept = !options.check && changed && regressions > 0 && !options.update;
+    const report = {
+        previousAt: previous?.generatedAt ?? null,
+        thresholdPercent,
+        regressions,
+        overBudget: rows.filter(row => row.status === 'over-budget').length,
+        snapshotKept,
+        rows,
+    };
+
+    if (!options.check && changed && !snapshotKept) {
+        const snapshot = { version: SNAPSHOT_VERSION, generatedAt: new Date().toISOString(), counts };
+        await fs.writeFile(snapshotFile, `${JSON.stringify(snapshot, null, 2)}\n`);
+    }
+
+    const output = options.json ? JSON.stringify(report, null, 2) : markdownReport(report);
+    if (options.output) await fs.writeFile(options.output, `${output}\n`);
+    console.log(output);
+    return report.regressions + report.overBudget > 0 ? EXIT_OVER_BUDGET : EXIT_OK;
+}
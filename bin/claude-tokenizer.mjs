@@ -0,0 +1,419 @@
+#!/usr/bin/env node
+// Command-line client for the token counter. Counts go through a running
+// server's POST /api/v1/count (so the CLI shares the app's counting, cache
+// and local-estimate fallback), and prices come from its GET /api/models.
+//
+//   claude-tokenizer count src/**/*.ts README.md --model claude-sonnet-4-6
+//   git diff | claude-tokenizer count --json --max-tokens 50000
+//   claude-tokenizer budgets --check --output budget-report.md
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+import {
+    EXIT_OK,
+    EXIT_OVER_BUDGET,
+    EXIT_ERROR,
+    UsageError,
+    ServerError,
+    decodeText,
+    request,
+    countText,
+    mapWithConcurrency,
+    COUNT_CONCURRENCY,
+} from './client.mjs';
+import { budgets } from './budgets.mjs';
+
+const USAGE = `Usage:
+  claude-tokenizer count [paths...] [options]
+  claude-tokenizer budgets [options]
+
+count: counts Claude input tokens for files, directories (recursively,
+honoring .gitignore), glob patterns and stdin (pass - or pipe input with
+no paths).
+
+  --model <id>          Model to count with (default: the server's default)
+  --max-tokens <n>      Exit with status 1 when the total is over n tokens
+  --exclude <glob>      Skip matching paths; repeatable
+  --json                Print a JSON report instead of a table
+
+budgets: counts the prompts listed in a manifest, snapshots the counts and
+reports what changed since the previous snapshot as Markdown.
+
+  --manifest <file>     Manifest to read (default prompt-budgets.json)
+  --snapshot <file>     Snapshot to compare with and update (default: the
+                        manifest's \`snapshot\`, else prompt-budgets.snapshot.json)
+  --threshold <pct>     Growth that counts as a regression (default: the
+                        manifest's \`thresholdPercent\`, else 5)
+  --output <file>       Also write the report to a file
+  --check               Report only; leave the snapshot as it is
+  --update              Update the snapshot even when there are
+                        regressions, accepting them as the new baseline
+  --offline             With no --server, count with local estimates even
+                        when an Anthropic key is configured
+  --json                Print the report as JSON
+
+Without --server, budgets runs the app on a free local port for the job;
+it counts with local estimates when no Anthropic key is configured.
+
+Common options:
+  --server <url>        Server to count with (env CLAUDE_TOKENIZER_URL;
+                        count defaults to http://localhost:3000)
+  --api-key <key>       Key for /api/v1 (env CLAUDE_TOKENIZER_API_KEY)
+  -h, --help            Show this help
+
+/api/v1 answers 401 to every request until the server has an api-keys.json
+(see API_KEYS_FILE), so count against the default http://localhost:3000
+needs that file and one of its keys in --api-key.
+
+Exit status: 0 when counted, 1 when over --max-tokens or a budget (or on a
+regression), 2 on errors.`;
+
+// Where `count` looks for the app when no server is configured
+const DEFAULT_SERVER = 'http://localhost:3000';
+
+// Directories never worth counting, on top of what .gitignore says
+const SKIPPED_DIRS = new Set(['.git', 'node_modules', '.next']);
+
+function parseArgs(argv) {
+    const options = {
+        paths: [],
+        exclude: [],
+        model: null,
+        maxTokens: null,
+        json: false,
+        manifest: null,
+        snapshot: null,
+        thresholdPercent: null,
+        output: null,
+        check: false,
+        update: false,
+        offline: false,
+        server: process.env.CLAUDE_TOKENIZER_URL || null,
+        apiKey: process.env.CLAUDE_TOKENIZER_API_KEY || null,
+        help: false,
+    };
+    const value = (i, flag) => {
+        if (i >= argv.length) throw new UsageError(`${flag} needs a value`);
+        return argv[i];
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            case '--model':
+                options.model = value(++i, arg);
+                break;
+            case '--max-tokens': {
+                const max = value(++i, arg);
+                if (!/^\d+$/.test(max)) throw new UsageError('--max-tokens must be a whole number');
+                options.maxTokens = Number(max);
+                break;
+            }
+            case '--exclude':
+                options.exclude.push(value(++i, arg));
+                break;
+            case '--manifest':
+                options.manifest = value(++i, arg);
+                break;
+            case '--snapshot':
+                options.snapshot = value(++i, arg);
+                break;
+            case '--threshold': {
+                const threshold = value(++i, arg);
+                if (!/^\d+(\.\d+)?$/.test(threshold)) throw new UsageError('--threshold must be a percentage, e.g. 5');
+                options.thresholdPercent = Number(threshold);
+                break;
+            }
+            case '--output':
+                options.output = value(++i, arg);
+                break;
+            case '--check':
+                options.check = true;
+                break;
+            case '--update':
+                options.update = true;
+                break;
+            case '--offline':
+                options.offline = true;
+                break;
+            case '--server':
+                options.server = value(++i, arg);
+                break;
+            case '--api-key':
+                options.apiKey = value(++i, arg);
+                break;
+            default:
+                if (arg.startsWith('--')) throw new UsageError(`Unknown option ${arg}`);
+                options.paths.push(arg);
+        }
+    }
+    return options;
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+// Where the `{` at `open` is closed, and the top-level commas between,
+// allowing for nested braces; null when it's never closed
+function braceAlternatives(glob, open) {
+    const commas = [];
+    let depth = 0;
+    for (let i = open + 1; i < glob.length; i++) {
+        if (glob[i] === '{') depth++;
+        else if (glob[i] === '}' && depth > 0) depth--;
+        else if (glob[i] === '}') return { end: i, commas };
+        else if (glob[i] === ',' && depth === 0) commas.push(i);
+    }
+    return null;
+}
+
+// Regex source for a glob over /-separated paths: `**` crosses directories,
+// `*` and `?` don't, and `{a,b}` and `[...]` work as in a shell
+function globSource(glob) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            const slash = glob[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            const braces = braceAlternatives(glob, i);
+            if (!braces) {
+                source += '\\{';
+            } else {
+                // Each alternative is a glob in its own right
+                const bounds = [i, ...braces.commas, braces.end];
+                const alternatives = bounds.slice(1).map((end, n) => globSource(glob.slice(bounds[n] + 1, end)));
+                source += `(?:${alternatives.join('|')})`;
+                i = braces.end;
+            }
+        } else {
+            source += char.replace(/[.+^$()|\\\]}]/g, '\\$&');
+        }
+    }
+    return source;
+}
+
+// A pattern that still doesn't compile (a bad `[...]` range, say) is the
+// user's to fix
+function globRegex(glob) {
+    try {
+        return new RegExp(`^${globSource(glob)}$`);
+    } catch {
+        throw new UsageError(`Invalid glob pattern ${glob}`);
+    }
+}
+
+// Every file under `dir`, skipping what its .gitignore files (and
+// SKIPPED_DIRS) leave out. Paths come back relative to the working directory.
+async function walk(dir, rules = []) {
+    let gitignore = null;
+    try {
+        gitignore = ignore().add(await fs.readFile(path.join(dir, '.gitignore'), 'utf8'));
+    } catch {
+        // No .gitignore here
+    }
+    const active = gitignore ? [...rules, { dir, matcher: gitignore }] : rules;
+    const ignored = (file, isDir) => active.some(rule => {
+        const relative = path.relative(rule.dir, file).split(path.sep).join('/');
+        return rule.matcher.ignores(isDir ? `${relative}/` : relative);
+    });
+
+    const files = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const file = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!SKIPPED_DIRS.has(entry.name) && !ignored(file, true)) {
+                files.push(...await walk(file, active));
+            }
+        } else if (entry.isFile() && !ignored(file, false)) {
+            files.push(file);
+        }
+    }
+    return files;
+}
+
+// Expand the command line's paths into files: directories are walked,
+// globs matched from their fixed leading directories
+async function expandPaths(paths, exclude) {
+    const excluded = ignore().add(exclude);
+    const files = [];
+    for (const arg of paths) {
+        if (GLOB_CHARS.test(arg)) {
+            const segments = arg.split('/');
+            const fixed = segments.slice(0, segments.findIndex(segment => GLOB_CHARS.test(segment)));
+            const base = fixed.join('/') || '.';
+            const pattern = globRegex(path.posix.normalize(arg));
+            const matches = (await walk(base).catch(() => []))
+                .filter(file => pattern.test(file.split(path.sep).join('/')));
+            if (matches.length === 0) throw new UsageError(`No files match ${arg}`);
+            files.push(...matches);
+            continue;
+        }
+
+        let stat;
+        try {
+            stat = await fs.stat(arg);
+        } catch {
+            throw new UsageError(`No such file or directory: ${arg}`);
+        }
+        files.push(...(stat.isDirectory() ? await walk(arg) : [arg]));
+    }
+
+    const seen = new Set();
+    return files.filter(file => {
+        const normalized = path.normalize(file);
+        if (seen.has(normalized)) return false;
+        seen.add(normalized);
+        const relative = path.relative('.', normalized).split(path.sep).join('/');
+        return relative.startsWith('..') || !excluded.ignores(relative);
+    });
+}
+
+async function readStdin() {
+    const chunks = [];
+    for await (const chunk of process.stdin) chunks.push(chunk);
+    return Buffer.concat(chunks);
+}
+
+// Small costs keep two significant figures rather than rounding to $0.00
+const formatCost = (usd) => usd === 0 || usd >= 0.01 ? `$${usd.toFixed(2)}` : `$${usd.toPrecision(2)}`;
+
+const formatTokens = (row) => `${row.estimated ? '≈' : ''}${row.tokens.toLocaleString('en-US')}`;
+
+function printTable(report) {
+    const rows = report.files.map(file => [
+        file.path,
+        file.skipped ? `skipped (${file.skipped})` : formatTokens(file),
+    ]);
+    rows.push(['Total', formatTokens(report.total)]);
+    const width = Math.max(...rows.map(([name]) => name.length));
+    const tokensWidth = Math.max(...rows.map(([, tokens]) => tokens.length));
+    rows.forEach(([name, tokens], i) => {
+        if (i === rows.length - 1) console.log('-'.repeat(width + tokensWidth + 2));
+        console.log(`${name.padEnd(width)}  ${tokens.padStart(tokensWidth)}`);
+    });
+    console.log(`\n${report.modelName}: ${formatCost(report.total.cost)} input at $${report.inputPerMTok}/MTok`);
+    if (report.total.estimated) {
+        console.log(`≈ Local estimate (±${report.total.margin.toLocaleString('en-US')} tokens): the token counting API was unavailable`);
+    }
+    if (report.maxTokens !== null) {
+        console.log(report.overBudget
+            ? `Over budget: ${report.total.tokens.toLocaleString('en-US')} > ${report.maxTokens.toLocaleString('en-US')} tokens`
+            : `Within budget of ${report.maxTokens.toLocaleString('en-US')} tokens`);
+    }
+}
+
+async function count(options) {
+    const useStdin = options.paths.includes('-') || (options.paths.length === 0 && !process.stdin.isTTY);
+    if (options.paths.length === 0 && !useStdin) {
+        throw new UsageError('Give at least one path, or pipe input on stdin');
+    }
+
+    const registry = await request(options, 'api/models');
+    const modelId = options.model ?? registry.defaultModel;
+    const model = registry.models.find(m => m.id === modelId);
+    if (!model) {
+        throw new UsageError(`Unknown model ${modelId}. Known models: ${registry.models.map(m => m.id).join(', ')}`);
+    }
+
+    const inputs = (await expandPaths(options.paths.filter(p => p !== '-'), options.exclude))
+        .map(file => ({ path: file, read: () => fs.readFile(file) }));
+    if (useStdin) inputs.unshift({ path: '<stdin>', read: readStdin });
+
+    const files = await mapWithConcurrency(inputs, COUNT_CONCURRENCY, async (input) => {
+        const text = decodeText(await input.read());
+        if (text === null) return { path: input.path, skipped: 'binary' };
+        if (!text.trim()) return { path: input.path, tokens: 0, estimated: false, margin: null };
+        const result = await countText(options, model.id, text);
+        // Files are reported without the user-turn framing so they add up
+        return {
+            path: input.path,
+            tokens: result.content_tokens,
+            estimated: result.estimated,
+            margin: result.margin,
+        };
+    });
+
+    const counted = files.filter(file => !file.skipped);
+    const tokens = counted.reduce((sum, file) => sum + file.tokens, 0);
+    const estimated = counted.some(file => file.estimated);
+    const total = {
+        tokens,
+        cost: tokens * model.pricing.inputPerMTok / 1_000_000,
+        estimated,
+        margin: estimated ? counted.reduce((sum, file) => sum + (file.margin ?? 0), 0) : null,
+    };
+    const overBudget = options.maxTokens !== null && tokens > options.maxTokens;
+
+    const report = {
+        model: model.id,
+        modelName: model.name,
+        inputPerMTok: model.pricing.inputPerMTok,
+        files: files.map(file => file.skipped
+            ? file
+            : { ...file, cost: file.tokens * model.pricing.inputPerMTok / 1_000_000 }),
+        total,
+        maxTokens: options.maxTokens,
+        overBudget,
+    };
+    if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        printTable(report);
+    }
+    return overBudget ? EXIT_OVER_BUDGET : EXIT_OK;
+}
+
+async function main(argv) {
+    const [command, ...rest] = argv;
+    if (!command || command === '-h' || command === '--help') {
+        console.log(USAGE);
+        return command ? EXIT_OK : EXIT_ERROR;
+    }
+    if (command !== 'count' && command !== 'budgets') throw new UsageError(`Unknown command ${command}`);
+
+    const options = parseArgs(rest);
+    if (options.help) {
+        console.log(USAGE);
+        return EXIT_OK;
+    }
+    if (command === 'budgets') {
+        if (options.paths.length > 0) throw new UsageError('budgets reads its prompts from the manifest, not the command line');
+        return budgets(options);
+    }
+    return count({ ...options, server: options.server ?? DEFAULT_SERVER });
+}
+
+main(process.argv.slice(2)).then(
+    (status) => { process.exitCode = status; },
+    (error) => {
+        if (error instanceof UsageError || error instanceof ServerError) {
+            console.error(`claude-tokenizer: ${error.message}`);
+            if (error instanceof UsageError) console.error('Run claude-tokenizer --help for usage.');
+        } else {
+            console.error(error);
+        }
+        process.exitCode = EXIT_ERROR;
+    }
+);
@@ -0,0 +1,77 @@
+// Talking to the token counter's server, shared by the CLI's commands. The
+// CLI runs on plain Node without the app's TypeScript build, so the lib/
+// helpers it needs (decodeText, mapWithConcurrency) live here once for all
+// of its commands.
+
+// Exit statuses
+export const EXIT_OK = 0;
+export const EXIT_OVER_BUDGET = 1;
+export const EXIT_ERROR = 2;
+
+// How many counts are in flight at once
+export const COUNT_CONCURRENCY = 4;
+
+// How much of a file is scanned for NUL bytes when deciding it's binary
+const BINARY_SNIFF_BYTES = 8000;
+
+export class UsageError extends Error {}
+
+export class ServerError extends Error {}
+
+const strictDecoder = new TextDecoder('utf-8', { fatal: true });
+
+// Decode text that's meant to be UTF-8, or return null when it's binary
+export function decodeText(content) {
+    if (content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+    try {
+        return strictDecoder.decode(content);
+    } catch {
+        return null;
+    }
+}
+
+export async function request(options, route, init = {}) {
+    const url = new URL(route, options.server.endsWith('/') ? options.server : `${options.server}/`);
+    let response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        // Node reports why a fetch failed (ECONNREFUSED, ...) on its cause
+        const reason = error.cause?.code ?? error.cause?.errors?.[0]?.code ?? error.cause?.message ?? error.message;
+        throw new ServerError(`Can't reach ${url.origin} (${reason}); start the app or set --server`);
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        const message = body?.error ?? `${response.status} ${response.statusText}`;
+        if (body?.code === 'unauthorized') {
+            throw new ServerError(`${message}; set CLAUDE_TOKENIZER_API_KEY or --api-key`);
+        }
+        throw new ServerError(message);
+    }
+    return body;
+}
+
+export function countText(options, model, text) {
+    return request(options, 'api/v1/count', {
+        method: 'POST',
+        headers: {
+            'content-type': 'application/json',
+            ...(options.apiKey ? { 'x-api-key': options.apiKey } : {}),
+        },
+        body: JSON.stringify({ text, model, comparisons: false }),
+    });
+}
+
+// Run `fn` over `items` with at most `limit` in flight, keeping order
+export async function mapWithConcurrency(items, limit, fn) {
+    const results = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
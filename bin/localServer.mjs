@@ -0,0 +1,90 @@
+// Runs the app itself as a private counting server for commands that aren't
+// pointed at one with --server. Without an Anthropic key (or with
+// `offline`) it answers with the app's local estimates, so budgets can be
+// checked on machines and CI jobs that have no key.
+
+import { spawn } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import { createRequire } from 'module';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ServerError } from './client.mjs';
+
+const APP_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// `next dev` compiles routes on first request, which can take a while
+const STARTUP_TIMEOUT_MS = 180_000;
+const POLL_INTERVAL_MS = 500;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+function freePort() {
+    return new Promise((resolve, reject) => {
+        const probe = net.createServer();
+        probe.once('error', reject);
+        probe.listen(0, '127.0.0.1', () => {
+            const { port } = probe.address();
+            probe.close(() => resolve(port));
+        });
+    });
+}
+
+// Start the app on a free port with a one-off API key and rate limiting
+// off. Resolves once it answers, with its URL, the key and a `stop()`.
+export async function startLocalServer({ offline = false } = {}) {
+    const port = await freePort();
+    const apiKey = randomBytes(24).toString('hex');
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-tokenizer-'));
+    const keysFile = path.join(dir, 'api-keys.json');
+    await fs.writeFile(keysFile, JSON.stringify({
+        keys: [{ name: 'local-server', sha256: createHash('sha256').update(apiKey).digest('hex') }],
+    }));
+
+    const env = { ...process.env, API_KEYS_FILE: keysFile, RATE_LIMIT: 'off', NEXT_TELEMETRY_DISABLED: '1' };
+    if (offline) {
+        // Set rather than deleted, so a key in .env.local doesn't fill it back in
+        env.ANTHROPIC_API_KEY = '';
+    }
+
+    // A production build starts far faster; fall back to the dev server
+    const mode = existsSync(path.join(APP_ROOT, '.next', 'BUILD_ID')) ? 'start' : 'dev';
+    const nextBin = createRequire(import.meta.url).resolve('next/dist/bin/next');
+    const child = spawn(process.execPath, [nextBin, mode, '--port', String(port), '--hostname', '127.0.0.1'], {
+        cwd: APP_ROOT,
+        env,
+        stdio: ['ignore', 'ignore', 'pipe'],
+    });
+    let stderr = '';
+    child.stderr.on('data', (chunk) => { stderr = (stderr + chunk).slice(-2000); });
+    let exited = false;
+    child.once('exit', () => { exited = true; });
+
+    const stop = async () => {
+        if (!exited) {
+            child.kill();
+            await new Promise(resolve => child.once('exit', resolve));
+        }
+        await fs.rm(dir, { recursive: true, force: true });
+    };
+
+    const server = `http://127.0.0.1:${port}`;
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+        if (exited) {
+            await stop();
+            throw new ServerError(`The local counting server exited during startup${stderr ? `:\n${stderr.trim()}` : ''}`);
+        }
+        try {
+            const response = await fetch(`${server}/api/models`);
+            if (response.ok) return { server, apiKey, stop };
+        } catch {
+            // Not listening yet
+        }
+        await sleep(POLL_INTERVAL_MS);
+    }
+    await stop();
+    throw new ServerError(`The local counting server didn't start within ${STARTUP_TIMEOUT_MS / 1000} seconds`);
+}
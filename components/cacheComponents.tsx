@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { formatDollars } from "@/lib/utils";
+import { projectCacheCost } from "@/lib/cacheCost";
+import type { ModelPricing } from "@/lib/models";
+
+// Mirrors the response of POST /api/cache
+export interface CacheSimulationResult {
+    model: string;
+    totalTokens: number;
+    breakpoints: { location: string; prefixTokens: number; belowMinimum: boolean }[];
+    cachedPrefixTokens: number;
+    uncachedSuffixTokens: number;
+    minCacheableTokens: number;
+    approximate: boolean;
+    estimated?: true;
+    margin?: number;
+}
+
+interface CacheSimulatorProps {
+    simulation: CacheSimulationResult | null;
+    isProcessing: boolean;
+    pricing: ModelPricing | null;
+    markerHint: React.ReactNode;
+    onSimulate: () => void;
+}
+
+export const CacheSimulator = ({ simulation, isProcessing, pricing, markerHint, onSimulate }: CacheSimulatorProps) => {
+    const [calls, setCalls] = useState(100);
+    const [hitRatePercent, setHitRatePercent] = useState(90);
+
+    const projection = simulation && pricing
+        ? projectCacheCost(
+            simulation.cachedPrefixTokens,
+            simulation.uncachedSuffixTokens,
+            pricing,
+            calls,
+            hitRatePercent / 100,
+            simulation.minCacheableTokens
+        )
+        : null;
+
+    const approx = simulation?.estimated ? '≈' : '';
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-xs font-medium text-neutral-400">Prompt Caching Simulator</h2>
+                <button
+                    onClick={onSimulate}
+                    disabled={isProcessing}
+                    className="rounded-md bg-neutral-900 px-3 py-1 text-xs hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isProcessing ? 'Counting...' : 'Count Prefixes'}
+                </button>
+            </div>
+            <p className="text-xs text-neutral-500">{markerHint}</p>
+
+            <div className="flex flex-wrap gap-6 text-sm">
+                <label className="space-y-1">
+                    <span className="block text-xs text-neutral-400">Expected calls</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={calls}
+                        onChange={(e) => setCalls(Math.max(1, Number(e.target.value) || 1))}
+                        className="w-28 rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1"
+                    />
+                </label>
+                <label className="space-y-1">
+                    <span className="block text-xs text-neutral-400">Cache hit rate: {hitRatePercent}%</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={hitRatePercent}
+                        onChange={(e) => setHitRatePercent(Number(e.target.value))}
+                        className="w-48 accent-orange-400"
+                    />
+                </label>
+            </div>
+
+            {simulation && !isProcessing && (
+                <>
+                    <div className="flex flex-wrap gap-6">
+                        <div className="space-y-1">
+                            <h2 className="text-xs font-medium text-neutral-400">Cached Prefix</h2>
+                            <p className="text-3xl font-light">{approx}{simulation.cachedPrefixTokens.toLocaleString()}</p>
+                        </div>
+                        <div className="space-y-1">
+                            <h2 className="text-xs font-medium text-neutral-400">Uncached Suffix</h2>
+                            <p className="text-3xl font-light">{approx}{simulation.uncachedSuffixTokens.toLocaleString()}</p>
+                        </div>
+                        <div className="space-y-1">
+                            <h2 className="text-xs font-medium text-neutral-400">Min. Cacheable</h2>
+                            <p className="text-3xl font-light">{simulation.minCacheableTokens.toLocaleString()}</p>
+                        </div>
+                    </div>
+
+                    <div className="space-y-1 text-sm">
+                        {simulation.breakpoints.map((breakpoint) => (
+                            <div key={breakpoint.location} className="flex justify-between gap-4">
+                                <span className="font-mono text-neutral-400">{breakpoint.location}</span>
+                                <span className={breakpoint.belowMinimum ? 'text-orange-400' : ''}>
+                                    {approx}{breakpoint.prefixTokens.toLocaleString()} tokens
+                                    {breakpoint.belowMinimum && ' — below minimum, won’t be cached'}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {simulation.approximate && (
+                        <p className="text-xs text-amber-300">
+                            Prefixes ending in tools or system are counted with a placeholder turn, so they are approximate.
+                        </p>
+                    )}
+                    {simulation.estimated && (
+                        <p className="text-xs text-amber-300">
+                            Counts are local estimates, each within ±{(simulation.margin ?? 0).toLocaleString()} tokens; the token counting API wasn't available.
+                        </p>
+                    )}
+
+                    {projection && (
+                        <table className="w-full text-sm">
+                            <tbody>
+                                <tr className="border-t border-neutral-700">
+                                    <td className="py-1 text-neutral-400">Cache writes ({projection.misses.toLocaleString()} misses)</td>
+                                    <td className="py-1 text-right tabular-nums">{formatDollars(projection.cacheWriteCost)}</td>
+                                </tr>
+                                <tr className="border-t border-neutral-700">
+                                    <td className="py-1 text-neutral-400">Cache reads ({projection.hits.toLocaleString()} hits)</td>
+                                    <td className="py-1 text-right tabular-nums">{formatDollars(projection.cacheReadCost)}</td>
+                                </tr>
+                                <tr className="border-t border-neutral-700">
+                                    <td className="py-1 text-neutral-400">Fresh input</td>
+                                    <td className="py-1 text-right tabular-nums">{formatDollars(projection.freshInputCost)}</td>
+                                </tr>
+                                <tr className="border-t border-neutral-700 font-medium">
+                                    <td className="py-1">Total with caching</td>
+                                    <td className="py-1 text-right tabular-nums">{formatDollars(projection.totalCost)}</td>
+                                </tr>
+                                <tr className="border-t border-neutral-700">
+                                    <td className="py-1 text-neutral-400">Without caching</td>
+                                    <td className="py-1 text-right tabular-nums">{formatDollars(projection.baselineCost)}</td>
+                                </tr>
+                                <tr className="border-t border-neutral-700">
+                                    <td className="py-1 text-neutral-400">Savings</td>
+                                    <td className={`py-1 text-right tabular-nums ${projection.savings >= 0 ? 'text-green-400' : 'text-orange-400'}`}>
+                                        {projection.savings < 0 && '−'}{formatDollars(Math.abs(projection.savings))}
+                                    </td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    )}
+                    {projection && !projection.cacheable && (
+                        <p className="text-xs text-orange-400">
+                            The cached prefix is shorter than this model's minimum cacheable length, so every call is billed as regular input.
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Download } from "lucide-react";
+import type { ChunkBoundary, ChunkOptions, TextChunk } from "@/lib/chunking";
+
+// Mirrors the response of POST /api/chunk
+export interface ChunkResult {
+    model: string;
+    maxTokens: number;
+    overlapTokens: number;
+    boundary: ChunkBoundary;
+    chunks: TextChunk[];
+}
+
+interface ChunkerProps {
+    result: ChunkResult | null;
+    isProcessing: boolean;
+    onChunk: (options: ChunkOptions) => void;
+}
+
+// Longest chunk preview shown in the list
+const PREVIEW_CHARS = 160;
+
+const downloadJsonl = (result: ChunkResult) => {
+    const lines = result.chunks.map(chunk => JSON.stringify({
+        index: chunk.index,
+        start: chunk.start,
+        end: chunk.end,
+        tokens: chunk.tokens,
+        ...(chunk.estimated ? { estimated: true, margin: chunk.margin } : {}),
+        model: result.model,
+        text: chunk.text,
+    }));
+    const blob = new Blob([lines.join('\n') + '\n'], { type: 'application/jsonl' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'chunks.jsonl';
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const Chunker = ({ result, isProcessing, onChunk }: ChunkerProps) => {
+    const [maxTokens, setMaxTokens] = useState(512);
+    const [overlapTokens, setOverlapTokens] = useState(0);
+    const [boundary, setBoundary] = useState<ChunkBoundary>('paragraph');
+
+    const estimated = result?.chunks.some(chunk => chunk.estimated) ?? false;
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-4">
+            <h2 className="text-xs font-medium text-neutral-400">Chunker</h2>
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+                <label className="space-y-1">
+                    <span className="block text-xs text-neutral-400">Max tokens per chunk</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={maxTokens}
+                        onChange={(e) => setMaxTokens(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                        className="w-28 rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1"
+                    />
+                </label>
+                <label className="space-y-1">
+                    <span className="block text-xs text-neutral-400">Overlap tokens</span>
+                    <input
+                        type="number"
+                        min={0}
+                        value={overlapTokens}
+                        onChange={(e) => setOverlapTokens(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                        className="w-28 rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1"
+                    />
+                </label>
+                <label className="space-y-1">
+                    <span className="block text-xs text-neutral-400">Break on</span>
+                    <select
+                        value={boundary}
+                        onChange={(e) => setBoundary(e.target.value as ChunkBoundary)}
+                        className="rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1"
+                    >
+                        <option value="heading">Markdown headings</option>
+                        <option value="paragraph">Paragraphs</option>
+                        <option value="sentence">Sentences</option>
+                    </select>
+                </label>
+                <button
+                    onClick={() => onChunk({ maxTokens, overlapTokens: Math.min(overlapTokens, maxTokens - 1), boundary })}
+                    disabled={isProcessing}
+                    className="rounded-md bg-neutral-900 px-3 py-1 hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isProcessing ? 'Chunking...' : 'Chunk'}
+                </button>
+                {result && !isProcessing && (
+                    <button
+                        onClick={() => downloadJsonl(result)}
+                        className="flex items-center gap-2 rounded-md bg-neutral-900 px-3 py-1 hover:bg-neutral-700 border border-neutral-700"
+                    >
+                        <Download size={14} />
+                        Download JSONL
+                    </button>
+                )}
+            </div>
+
+            {result && !isProcessing && (
+                <div className="max-h-96 overflow-auto space-y-2">
+                    <p className="text-xs text-neutral-500">
+                        {result.chunks.length.toLocaleString()} chunks, {estimated ? '≈' : ''}{result.chunks.reduce((sum, chunk) => sum + chunk.tokens, 0).toLocaleString()} tokens in total
+                        {estimated && <span className="text-amber-300">; counts are local estimates, so chunks may run over the limit</span>}
+                    </p>
+                    {result.chunks.map(chunk => (
+                        <div key={chunk.index} className="rounded-md bg-neutral-900 p-2 text-sm">
+                            <div className="flex justify-between text-xs text-neutral-400">
+                                <span>#{chunk.index} · chars {chunk.start.toLocaleString()}–{chunk.end.toLocaleString()}</span>
+                                <span
+                                    className="tabular-nums"
+                                    title={chunk.estimated ? `Local estimate, ±${(chunk.margin ?? 0).toLocaleString()} tokens` : undefined}
+                                >
+                                    {chunk.estimated ? `≈${chunk.tokens.toLocaleString()} ±${(chunk.margin ?? 0).toLocaleString()}` : chunk.tokens.toLocaleString()} tokens
+                                </span>
+                            </div>
+                            <p className="mt-1 font-mono text-xs text-neutral-300 whitespace-pre-wrap break-words">
+                                {chunk.text.length > PREVIEW_CHARS ? `${chunk.text.slice(0, PREVIEW_CHARS)}…` : chunk.text}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
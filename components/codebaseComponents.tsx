@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Folder } from "lucide-react";
+import { formatCost } from "@/lib/utils";
+import type { CodebaseReport, CodebaseTreeNode } from "@/lib/codebase";
+
+interface CodebasePanelProps {
+    report: CodebaseReport | null;
+    exclude: string;
+    onExcludeChange: (exclude: string) => void;
+    isProcessing: boolean;
+    isExporting: boolean;
+    onExport: () => void;
+    inputPricePerMTok: number | null;
+}
+
+// Folders deeper than this start collapsed
+const EXPANDED_DEPTH = 1;
+
+const SKIP_LABELS: Record<keyof CodebaseReport['skipped'], string> = {
+    gitignore: 'ignored by .gitignore',
+    excluded: 'excluded by globs',
+    binary: 'binary',
+    tooLarge: 'over 1 MB',
+};
+
+const TreeNode = ({ node, depth, total }: { node: CodebaseTreeNode; depth: number; total: number }) => {
+    const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+    const share = total > 0 ? (node.tokens / total) * 100 : 0;
+
+    return (
+        <li>
+            <div
+                className="flex items-center justify-between gap-4 py-0.5 hover:bg-neutral-900 rounded"
+                style={{ paddingLeft: `${depth * 16}px` }}
+            >
+                {node.type === 'directory' ? (
+                    <button
+                        onClick={() => setExpanded(!expanded)}
+                        className="flex items-center gap-1 truncate text-left"
+                    >
+                        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        <Folder size={14} className="text-neutral-400" />
+                        <span className="truncate">{node.name}/</span>
+                        <span className="text-xs text-neutral-500">{node.files.toLocaleString()}</span>
+                    </button>
+                ) : (
+                    <span className="truncate pl-5 font-mono text-xs" title={node.error}>
+                        {node.name}
+                        {node.error && <span className="text-red-400"> (failed)</span>}
+                    </span>
+                )}
+                <span className="shrink-0 tabular-nums text-xs text-neutral-400">
+                    {node.tokens.toLocaleString()}
+                    <span className="text-neutral-600"> · {share.toFixed(1)}%</span>
+                </span>
+            </div>
+            {node.type === 'directory' && expanded && (
+                <ul>
+                    {node.children?.map(child => (
+                        <TreeNode key={child.path} node={child} depth={depth + 1} total={total} />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+export const CodebasePanel = ({ report, exclude, onExcludeChange, isProcessing, isExporting, onExport, inputPricePerMTok }: CodebasePanelProps) => {
+    const skippedSummary = report
+        ? (Object.keys(SKIP_LABELS) as (keyof CodebaseReport['skipped'])[])
+            .filter(reason => report.skipped[reason] > 0)
+            .map(reason => `${report.skipped[reason].toLocaleString()} ${SKIP_LABELS[reason]}`)
+        : [];
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-4">
+            <h2 className="text-xs font-medium text-neutral-400">Codebase</h2>
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+                <label className="flex-1 space-y-1">
+                    <span className="block text-xs text-neutral-400">Exclude globs (.gitignore syntax, comma separated)</span>
+                    <input
+                        type="text"
+                        value={exclude}
+                        placeholder="e.g. *.lock, docs/, **/*.test.ts"
+                        onChange={(e) => onExcludeChange(e.target.value)}
+                        className="w-full rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 font-mono"
+                    />
+                </label>
+                <button
+                    onClick={onExport}
+                    disabled={isExporting}
+                    className="flex items-center gap-2 rounded-md bg-neutral-900 px-3 py-1 hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Download size={14} />
+                    {isExporting ? 'Exporting...' : 'Export prompt'}
+                </button>
+            </div>
+
+            {report && !isProcessing && (
+                <>
+                    <p className="text-xs text-neutral-500">
+                        {report.fileCount.toLocaleString()} files counted
+                        {report.failed > 0 && <span className="text-red-400">, {report.failed.toLocaleString()} failed</span>}
+                        {skippedSummary.length > 0 && `; skipped ${skippedSummary.join(', ')}`}
+                        {report.estimated && <span className="text-amber-400">; counts are local estimates</span>}
+                    </p>
+
+                    {report.topFiles.length > 0 && (
+                        <div className="space-y-2">
+                            <h3 className="text-xs font-medium text-neutral-400">Heaviest files</h3>
+                            <table className="w-full text-sm">
+                                <tbody>
+                                    {report.topFiles.map(file => (
+                                        <tr key={file.path} className="border-t border-neutral-700">
+                                            <td className="py-1 font-mono text-xs truncate max-w-[360px]">{file.path}</td>
+                                            <td className="py-1 text-right tabular-nums">{file.tokens.toLocaleString()}</td>
+                                            <td className="py-1 text-right tabular-nums text-neutral-400">
+                                                {inputPricePerMTok !== null ? formatCost(file.tokens, inputPricePerMTok) : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <h3 className="text-xs font-medium text-neutral-400">Tokens by folder</h3>
+                        <ul className="max-h-96 overflow-auto text-sm">
+                            {report.tree.children?.map(child => (
+                                <TreeNode key={child.path} node={child} depth={0} total={report.tree.tokens} />
+                            ))}
+                        </ul>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
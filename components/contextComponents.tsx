@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Copy, Check } from "lucide-react";
+
+// Mirrors the response of POST /api/fit
+export interface ContextFitResult {
+    model: string;
+    contextWindow: number;
+    reservedOutputTokens: number;
+    inputBudget: number;
+    inputTokens: number;
+    fits: boolean;
+    cutOffset: number | null;
+    cutTokens: number | null;
+    estimated?: true;
+    margin?: number;
+}
+
+interface ContextBudgetProps {
+    maxTokens: number;
+    maxOutputTokens: number | null;
+    onMaxTokensChange: (maxTokens: number) => void;
+    overflows: boolean;
+    // Only plain text can be cut down to size
+    canTruncate: boolean;
+    fit: ContextFitResult | null;
+    isProcessing: boolean;
+    onFindCutPoint: () => void;
+    onCopyTruncated: () => Promise<void>;
+}
+
+export const ContextBudget = ({ maxTokens, maxOutputTokens, onMaxTokensChange, overflows, canTruncate, fit, isProcessing, onFindCutPoint, onCopyTruncated }: ContextBudgetProps) => {
+    const [copied, setCopied] = useState(false);
+
+    const copyTruncated = async () => {
+        await onCopyTruncated();
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 text-neutral-400">
+                Reserve for output (max_tokens)
+                <input
+                    type="number"
+                    min={0}
+                    max={maxOutputTokens ?? undefined}
+                    step={256}
+                    value={maxTokens}
+                    onChange={(e) => onMaxTokensChange(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                    className="w-28 rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-white"
+                />
+            </label>
+            {overflows && canTruncate && (!fit || fit.cutOffset === null) && (
+                <button
+                    onClick={onFindCutPoint}
+                    disabled={isProcessing}
+                    className="rounded-md bg-neutral-800 px-3 py-1 hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isProcessing ? 'Searching...' : 'Find cut point'}
+                </button>
+            )}
+            {fit && fit.cutOffset !== null && (
+                <div className="flex items-center gap-3">
+                    <span className="text-neutral-400">
+                        Fits up to character {fit.cutOffset.toLocaleString()} ({fit.estimated ? '≈' : ''}{fit.cutTokens?.toLocaleString()} tokens
+                        {fit.estimated && `, ±${(fit.margin ?? 0).toLocaleString()} as a local estimate`})
+                    </span>
+                    <button
+                        onClick={copyTruncated}
+                        className="flex items-center gap-2 rounded-md bg-neutral-800 px-3 py-1 hover:bg-neutral-700 border border-neutral-700"
+                    >
+                        {copied ? <Check size={14} /> : <Copy size={14} />}
+                        {copied ? 'Copied' : 'Copy truncated text'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
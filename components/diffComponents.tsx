@@ -0,0 +1,85 @@
+import type { DiffHunk, PromptDiff } from "@/lib/promptDiff";
+import { formatDollars } from "@/lib/utils";
+
+interface PromptDiffViewProps {
+    diff: PromptDiff | null;
+    isProcessing: boolean;
+    inputPricePerMTok: number | null;
+}
+
+// Signed token change, with a Unicode minus to match the percentage diffs
+export const formatTokenDelta = (delta: number) =>
+    delta < 0 ? `−${Math.abs(delta).toLocaleString()}` : `+${delta.toLocaleString()}`;
+
+// Signed cost change for a token delta
+export const formatCostDelta = (delta: number, pricePerMTok: number) => {
+    const dollars = formatDollars(Math.abs(delta) / 1_000_000 * pricePerMTok);
+    return delta < 0 ? `−${dollars}` : `+${dollars}`;
+};
+
+const LINE_STYLES: Record<DiffHunk['lines'][number]['kind'], { prefix: string; className: string }> = {
+    context: { prefix: ' ', className: 'text-neutral-400' },
+    added: { prefix: '+', className: 'bg-green-950/40 text-green-300' },
+    removed: { prefix: '−', className: 'bg-red-950/40 text-red-300' },
+};
+
+// Line diff of the two panes, each hunk with the tokens it adds on its own
+export const PromptDiffView = ({ diff, isProcessing, inputPricePerMTok }: PromptDiffViewProps) => {
+    if (isProcessing) {
+        return (
+            <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 text-sm text-neutral-400">
+                <span className="animate-pulse">Counting each change...</span>
+            </div>
+        );
+    }
+    if (!diff) return null;
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-3">
+            <div className="flex items-baseline justify-between gap-4">
+                <h2 className="text-xs font-medium text-neutral-400">Changes</h2>
+                <span className="text-xs text-neutral-500">
+                    {diff.hunks.length.toLocaleString()} {diff.hunks.length === 1 ? 'hunk' : 'hunks'}
+                </span>
+            </div>
+            {diff.hunks.length === 0 ? (
+                <p className="text-sm text-neutral-500">The two versions are identical.</p>
+            ) : (
+                <div className="max-h-[32rem] overflow-auto space-y-3">
+                    {diff.hunks.map((hunk, index) => (
+                        <div key={index} className="rounded-md bg-neutral-900 overflow-hidden">
+                            <div className="flex items-baseline justify-between gap-4 px-3 py-1.5 text-xs border-b border-neutral-700">
+                                <span className="font-mono text-neutral-500">
+                                    @@ −{hunk.beforeStart},{hunk.beforeLines} +{hunk.afterStart},{hunk.afterLines} @@
+                                </span>
+                                {hunk.tokenDelta !== null ? (
+                                    <span className={`tabular-nums ${hunk.tokenDelta < 0 ? 'text-green-400' : hunk.tokenDelta > 0 ? 'text-orange-400' : 'text-neutral-400'}`}>
+                                        {diff.estimated ? '≈' : ''}{formatTokenDelta(hunk.tokenDelta)} tokens
+                                        {inputPricePerMTok !== null && hunk.tokenDelta !== 0 && (
+                                            <span className="text-neutral-500"> · {formatCostDelta(hunk.tokenDelta, inputPricePerMTok)}</span>
+                                        )}
+                                    </span>
+                                ) : (
+                                    <span className="text-neutral-500">not counted</span>
+                                )}
+                            </div>
+                            <pre className="font-mono text-xs whitespace-pre-wrap break-words py-1">
+                                {hunk.lines.map((line, lineIndex) => (
+                                    <div key={lineIndex} className={`px-3 ${LINE_STYLES[line.kind].className}`}>
+                                        {LINE_STYLES[line.kind].prefix} {line.text}
+                                    </div>
+                                ))}
+                            </pre>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {diff.hunks.length > 1 && (
+                <p className="text-xs text-neutral-500">
+                    Each hunk is counted as the only change to &quot;before&quot;, so they can add up to slightly
+                    more or less than the total change: edits merge or split tokens where they meet.
+                </p>
+            )}
+        </div>
+    );
+};
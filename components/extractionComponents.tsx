@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { formatCost } from "@/lib/utils";
+import type { ExtractionMethod } from "@/lib/extraction";
+
+// Mirrors the `extraction` field of POST /api
+export interface ExtractionInfo {
+    method: ExtractionMethod;
+    rawBytes: number;
+    rawTokens: number | null;
+    // Whether `rawTokens` is a local estimate
+    rawEstimated: boolean;
+    extractedChars: number;
+    preview: string;
+}
+
+export const EXTRACTION_LABELS: Record<ExtractionMethod, string> = {
+    docx: 'Word document text',
+    xlsx: 'Spreadsheet sheets as CSV',
+    pptx: 'Slide text',
+    html: 'HTML visible text',
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface ExtractionComparisonProps {
+    extraction: ExtractionInfo;
+    extractedTokens: number | null;
+    inputPricePerMTok: number | null;
+}
+
+// What was counted for an Office or HTML upload, next to the file as uploaded
+export const ExtractionComparison = ({ extraction, extractedTokens, inputPricePerMTok }: ExtractionComparisonProps) => {
+    const [showPreview, setShowPreview] = useState(false);
+    const saving = extraction.rawTokens && extractedTokens !== null
+        ? ((extraction.rawTokens - extractedTokens) / extraction.rawTokens) * 100
+        : null;
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xs font-medium text-neutral-400">
+                    Extraction: <span className="text-white">{EXTRACTION_LABELS[extraction.method]}</span>
+                </h2>
+                <button
+                    onClick={() => setShowPreview(!showPreview)}
+                    className="text-xs text-neutral-400 hover:text-white"
+                >
+                    {showPreview ? 'Hide extracted text' : 'Show extracted text'}
+                </button>
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-neutral-500">
+                        <th className="font-normal py-1"></th>
+                        <th className="font-normal py-1 text-right">Size</th>
+                        <th className="font-normal py-1 text-right">Tokens</th>
+                        <th className="font-normal py-1 text-right">Est. input cost</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr className="border-t border-neutral-700">
+                        <td className="py-1">{extraction.method === 'html' ? 'Raw markup' : 'Raw file'}</td>
+                        <td className="py-1 text-right tabular-nums">{formatBytes(extraction.rawBytes)}</td>
+                        <td className="py-1 text-right tabular-nums">
+                            {extraction.rawTokens !== null
+                                ? `${extraction.rawEstimated ? '≈' : ''}${extraction.rawTokens.toLocaleString()}`
+                                : <span title="Binary files can't be sent as text" className="text-neutral-500">—</span>}
+                        </td>
+                        <td className="py-1 text-right tabular-nums text-neutral-400">
+                            {extraction.rawTokens !== null && inputPricePerMTok !== null ? formatCost(extraction.rawTokens, inputPricePerMTok) : '—'}
+                        </td>
+                    </tr>
+                    <tr className="border-t border-neutral-700 text-orange-400">
+                        <td className="py-1">Extracted text</td>
+                        <td className="py-1 text-right tabular-nums">{extraction.extractedChars.toLocaleString()} chars</td>
+                        <td className="py-1 text-right tabular-nums">
+                            {extractedTokens !== null ? extractedTokens.toLocaleString() : '—'}
+                            {saving !== null && (
+                                <span className={saving >= 0 ? 'text-green-400' : ''}>
+                                    {` (${saving >= 0 ? '−' : '+'}${Math.abs(saving).toFixed(1)}%)`}
+                                </span>
+                            )}
+                        </td>
+                        <td className="py-1 text-right tabular-nums text-neutral-400">
+                            {extractedTokens !== null && inputPricePerMTok !== null ? formatCost(extractedTokens, inputPricePerMTok) : '—'}
+                        </td>
+                    </tr>
+                </tbody>
+            </table>
+            {showPreview && (
+                <pre className="max-h-64 overflow-auto rounded-md bg-neutral-900 p-2 font-mono text-xs text-neutral-300 whitespace-pre-wrap break-words">
+                    {extraction.preview}
+                    {extraction.extractedChars > extraction.preview.length && (
+                        <span className="text-neutral-500">{`\n… ${(extraction.extractedChars - extraction.preview.length).toLocaleString()} more characters`}</span>
+                    )}
+                </pre>
+            )}
+        </div>
+    );
+};
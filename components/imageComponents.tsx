@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { formatCost } from "@/lib/utils";
+import { ImageDimensions, MAX_IMAGE_LONG_EDGE, estimateImageTokens } from "@/lib/imageEstimate";
+import type { ConversionCount } from "@/lib/uploads";
+
+export interface EstimatorImage {
+    name: string;
+    preview: string | null;
+    // undefined while the header is still being read, null if unreadable
+    dimensions?: ImageDimensions | null;
+    // The API's count for the image as sent, once counted
+    apiTokens: number | null;
+}
+
+interface ImageEstimatorProps {
+    images: EstimatorImage[];
+    // Mirrors the `conversions` field of POST /api
+    conversions: ConversionCount[] | null;
+    downscale: boolean;
+    onDownscaleChange: (downscale: boolean) => void;
+    inputPricePerMTok: number | null;
+}
+
+// Long-edge sizes offered for trying out a pipeline resolution
+const RESIZE_PRESETS = [MAX_IMAGE_LONG_EDGE, 1280, 1024, 768, 512, 256];
+
+const formatSize = ({ width, height }: ImageDimensions) => `${width}×${height}`;
+
+const formatImage = (format: string, dimensions: ImageDimensions | null) =>
+    `${format.replace('image/', '').toUpperCase()}${dimensions ? ` ${formatSize(dimensions)}` : ''}`;
+
+// Estimated tokens per image from its dimensions alone, at the original size
+// or a chosen long edge, next to the API count when there is one. Images the
+// server converted or downscaled get their before and after counts too.
+export const ImageEstimator = ({ images, conversions, downscale, onDownscaleChange, inputPricePerMTok }: ImageEstimatorProps) => {
+    const [maxLongEdge, setMaxLongEdge] = useState<number | null>(null);
+    const rows = images.map(image => ({
+        ...image,
+        estimate: image.dimensions ? estimateImageTokens(image.dimensions, maxLongEdge ?? undefined) : null,
+    }));
+    const totalTokens = rows.reduce((sum, row) => sum + (row.estimate?.tokens ?? 0), 0);
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-xs font-medium text-neutral-400">Image Estimate</h2>
+                <label className="flex items-center gap-2 text-xs text-neutral-400">
+                    <input
+                        type="checkbox"
+                        checked={downscale}
+                        onChange={(e) => onDownscaleChange(e.target.checked)}
+                    />
+                    Downscale to model limits before counting
+                </label>
+                <label className="flex items-center gap-2 text-xs text-neutral-400">
+                    Resize long edge to
+                    <select
+                        value={maxLongEdge ?? ''}
+                        onChange={(e) => setMaxLongEdge(e.target.value ? Number(e.target.value) : null)}
+                        className="rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 text-xs text-white"
+                    >
+                        <option value="">Original</option>
+                        {RESIZE_PRESETS.map(size => (
+                            <option key={size} value={size}>{size}px</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-neutral-500">
+                        <th className="font-normal py-1">Image</th>
+                        <th className="font-normal py-1 text-right">Original</th>
+                        <th className="font-normal py-1 text-right">Sent as</th>
+                        <th className="font-normal py-1 text-right">Est. tokens</th>
+                        <th className="font-normal py-1 text-right">API count</th>
+                        <th className="font-normal py-1 text-right">Est. input cost</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row, index) => (
+                        <tr key={`${row.name}-${index}`} className="border-t border-neutral-700">
+                            <td className="py-1">
+                                <div className="flex items-center gap-2">
+                                    {row.preview && (
+                                        <img src={row.preview} alt="" className="h-8 w-8 rounded object-cover" />
+                                    )}
+                                    <span className="truncate max-w-[160px]">{row.name}</span>
+                                </div>
+                            </td>
+                            <td className="py-1 text-right tabular-nums text-neutral-400">
+                                {row.dimensions ? formatSize(row.dimensions) : row.dimensions === null ? 'unknown' : '…'}
+                            </td>
+                            <td className={`py-1 text-right tabular-nums ${row.estimate?.resized ? 'text-orange-400' : ''}`}>
+                                {row.estimate ? formatSize({ width: row.estimate.resizedWidth, height: row.estimate.resizedHeight }) : '—'}
+                            </td>
+                            <td className="py-1 text-right tabular-nums">
+                                {row.estimate ? row.estimate.tokens.toLocaleString() : '—'}
+                            </td>
+                            <td className="py-1 text-right tabular-nums text-neutral-400">
+                                {row.apiTokens !== null ? row.apiTokens.toLocaleString() : '—'}
+                            </td>
+                            <td className="py-1 text-right tabular-nums text-neutral-400">
+                                {row.estimate && inputPricePerMTok !== null ? formatCost(row.estimate.tokens, inputPricePerMTok) : '—'}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+                {rows.length > 1 && (
+                    <tfoot>
+                        <tr className="border-t border-neutral-700 text-neutral-400">
+                            <td className="py-1" colSpan={3}>Total</td>
+                            <td className="py-1 text-right tabular-nums text-white">{totalTokens.toLocaleString()}</td>
+                            <td className="py-1"></td>
+                            <td className="py-1 text-right tabular-nums">
+                                {inputPricePerMTok !== null ? formatCost(totalTokens, inputPricePerMTok) : '—'}
+                            </td>
+                        </tr>
+                    </tfoot>
+                )}
+            </table>
+            <p className="text-xs text-neutral-500">
+                Estimated as width × height / 750 after scaling to at most {MAX_IMAGE_LONG_EDGE}px on the long edge and about 1.15 megapixels. Orange sizes were scaled down. API counts are for the images as sent, after any conversion below.
+            </p>
+            {conversions && conversions.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs text-neutral-500">
+                            <th className="font-normal py-1">Converted image</th>
+                            <th className="font-normal py-1 text-right">Uploaded</th>
+                            <th className="font-normal py-1 text-right">Sent</th>
+                            <th className="font-normal py-1 text-right">Tokens before</th>
+                            <th className="font-normal py-1 text-right">Tokens after</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {conversions.map((row, index) => (
+                            <tr key={`${row.name}-${index}`} className="border-t border-neutral-700">
+                                <td className="py-1">
+                                    <span className="truncate max-w-[160px] block">{row.name}</span>
+                                    <span className="text-xs text-neutral-500">
+                                        {[row.reencoded && 'converted', row.downscaled && 'downscaled'].filter(Boolean).join(', ')}
+                                    </span>
+                                </td>
+                                <td className="py-1 text-right tabular-nums text-neutral-400">
+                                    {formatImage(row.originalFormat, row.original)}
+                                </td>
+                                <td className="py-1 text-right tabular-nums">
+                                    {formatImage(row.mediaType, row.converted)}
+                                </td>
+                                <td className="py-1 text-right tabular-nums text-neutral-400">
+                                    {row.originalTokens !== null
+                                        ? `${row.originalEstimated ? '~' : ''}${row.originalTokens.toLocaleString()}`
+                                        : '—'}
+                                </td>
+                                <td className="py-1 text-right tabular-nums">
+                                    {row.convertedTokens !== null
+                                        ? `${row.estimated ? '≈' : ''}${row.convertedTokens.toLocaleString()}`
+                                        : <span title={row.error} className="text-neutral-500">—</span>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {conversions?.some(row => row.originalEstimated) && (
+                <p className="text-xs text-neutral-500">
+                    BMP and TIFF can&apos;t be sent as-is, so they go out as PNG; their before counts (~) are offline estimates.
+                </p>
+            )}
+        </div>
+    );
+};
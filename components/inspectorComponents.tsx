@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+
+// Mirrors the response of POST /api/inspect
+export interface TokenInspectionResult {
+    tokenizer: string;
+    approximate: boolean;
+    truncated: boolean;
+    inspectedChars: number;
+    tokens: { text: string; ids?: number[]; count: number }[];
+    estimated?: true;
+    margin?: number;
+}
+
+export type InspectorTokenizer = 'gpt-4o' | 'claude';
+
+interface TokenInspectorProps {
+    inspection: TokenInspectionResult | null;
+    isProcessing: boolean;
+    tokenizerLabel: string;
+    onInspect: (tokenizer: InspectorTokenizer) => void;
+}
+
+// Alternating highlight colours so neighbouring tokens stand apart
+const TOKEN_COLORS = [
+    'bg-orange-500/25',
+    'bg-sky-500/25',
+    'bg-emerald-500/25',
+    'bg-fuchsia-500/25',
+    'bg-amber-500/25',
+];
+
+// Spans are rendered a page at a time so long inputs don't lock up the page
+const RENDER_PAGE_SIZE = 2000;
+
+export const TokenInspector = ({ inspection, isProcessing, tokenizerLabel, onInspect }: TokenInspectorProps) => {
+    const [tokenizer, setTokenizer] = useState<InspectorTokenizer>('gpt-4o');
+    const [visibleCount, setVisibleCount] = useState(RENDER_PAGE_SIZE);
+
+    useEffect(() => {
+        setVisibleCount(RENDER_PAGE_SIZE);
+    }, [inspection]);
+
+    // Running token index for each span's tooltip
+    let tokenIndex = 0;
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-xs font-medium text-neutral-400">Token Boundaries</h2>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-md border border-neutral-700 overflow-hidden text-xs">
+                        <button
+                            onClick={() => setTokenizer('gpt-4o')}
+                            className={`px-2 py-1 ${tokenizer === 'gpt-4o' ? 'bg-neutral-700' : 'hover:bg-neutral-700'}`}
+                        >
+                            GPT-4o
+                        </button>
+                        <button
+                            onClick={() => setTokenizer('claude')}
+                            className={`px-2 py-1 border-l border-neutral-700 ${tokenizer === 'claude' ? 'bg-neutral-700' : 'hover:bg-neutral-700'}`}
+                        >
+                            {tokenizerLabel} (approx.)
+                        </button>
+                    </div>
+                    <button
+                        onClick={() => onInspect(tokenizer)}
+                        disabled={isProcessing}
+                        className="rounded-md bg-neutral-900 px-3 py-1 text-xs hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isProcessing ? 'Inspecting...' : 'Inspect'}
+                    </button>
+                </div>
+            </div>
+
+            {inspection && !isProcessing && (
+                <>
+                    {inspection.approximate && (
+                        <p className="text-xs text-amber-300">
+                            Approximate: Claude's tokenizer isn't public, so these boundaries are
+                            inferred by counting successively longer prefixes of the input.
+                            {inspection.truncated && ` Only the first ${inspection.inspectedChars.toLocaleString()} characters were inspected.`}
+                        </p>
+                    )}
+                    {inspection.estimated && (
+                        <p className="text-xs text-amber-300">
+                            Prefix counts are local estimates, each within ±{(inspection.margin ?? 0).toLocaleString()} tokens; the token counting API wasn't available.
+                        </p>
+                    )}
+                    <div className="max-h-96 overflow-auto rounded-md bg-neutral-900 p-3 font-mono text-sm whitespace-pre-wrap break-words">
+                        {inspection.tokens.slice(0, visibleCount).map((token, i) => {
+                            const first = tokenIndex;
+                            tokenIndex += token.count;
+                            const range = token.count > 1 ? `Tokens #${first}–${first + token.count - 1}` : `Token #${first}`;
+                            const ids = token.ids ? ` · ID ${token.ids.join(', ')}` : '';
+                            return (
+                                <span
+                                    key={i}
+                                    title={`${range}${ids}`}
+                                    className={`${TOKEN_COLORS[i % TOKEN_COLORS.length]} rounded-sm hover:outline hover:outline-1 hover:outline-white`}
+                                >
+                                    {token.text}
+                                </span>
+                            );
+                        })}
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-neutral-500">
+                        <span>
+                            {inspection.estimated ? '≈' : ''}{inspection.tokens.reduce((sum, token) => sum + token.count, 0).toLocaleString()} tokens
+                            {' '}in {inspection.tokens.length.toLocaleString()} spans
+                        </span>
+                        {visibleCount < inspection.tokens.length && (
+                            <button
+                                onClick={() => setVisibleCount(visibleCount + RENDER_PAGE_SIZE)}
+                                className="text-orange-400 hover:text-orange-300"
+                            >
+                                Show {Math.min(RENDER_PAGE_SIZE, inspection.tokens.length - visibleCount).toLocaleString()} more
+                            </button>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,150 @@
+import { formatCost } from "@/lib/utils";
+import type { PdfPageCount, PdfRangeCount } from "@/lib/pdfPages";
+
+// Mirrors the `pdf` field of POST /api
+export interface PdfInfo {
+    pageCount: number;
+    parts: number;
+    truncated: boolean;
+    pages: PdfPageCount[] | null;
+    ranges: PdfRangeCount[] | null;
+}
+
+interface PdfPanelProps {
+    info: PdfInfo | null;
+    perPage: boolean;
+    onPerPageChange: (perPage: boolean) => void;
+    pageRanges: string;
+    onPageRangesChange: (pageRanges: string) => void;
+    isProcessing: boolean;
+    inputPricePerMTok: number | null;
+}
+
+// Pages costing more than this multiple of the median are flagged as heavy
+const HEAVY_PAGE_FACTOR = 2;
+
+// How many of the most expensive pages are listed under the chart
+const TOP_PAGES = 5;
+
+const median = (values: number[]) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const rangeLabel = (range: PdfRangeCount) =>
+    range.start === range.end ? `Page ${range.start}` : `Pages ${range.start}–${range.end}`;
+
+export const PdfPanel = ({ info, perPage, onPerPageChange, pageRanges, onPageRangesChange, isProcessing, inputPricePerMTok }: PdfPanelProps) => {
+    const counted = info?.pages?.filter((page): page is PdfPageCount & { tokens: number } => page.tokens !== null) ?? [];
+    const maxTokens = Math.max(1, ...counted.map(page => page.tokens));
+    const heavyThreshold = median(counted.map(page => page.tokens)) * HEAVY_PAGE_FACTOR;
+    const topPages = [...counted].sort((a, b) => b.tokens - a.tokens).slice(0, TOP_PAGES);
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-4">
+            <h2 className="text-xs font-medium text-neutral-400">PDF Pages</h2>
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={perPage}
+                        onChange={(e) => onPerPageChange(e.target.checked)}
+                    />
+                    Count each page
+                </label>
+                <label className="flex-1 space-y-1">
+                    <span className="block text-xs text-neutral-400">Page ranges (optional)</span>
+                    <input
+                        type="text"
+                        value={pageRanges}
+                        placeholder="e.g. 1-5, 8, 10-12"
+                        onChange={(e) => onPageRangesChange(e.target.value)}
+                        className="w-full rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 font-mono"
+                    />
+                </label>
+            </div>
+
+            {info && !isProcessing && (
+                <>
+                    <p className="text-xs text-neutral-500">
+                        {info.pageCount.toLocaleString()} pages
+                        {info.parts > 1 && `; over the per-request page or size limit, so counted in ${info.parts} parts`}
+                        {info.truncated && info.pages && `; only the first ${info.pages.length.toLocaleString()} pages were counted individually`}
+                    </p>
+
+                    {counted.length > 0 && (
+                        <div className="space-y-2">
+                            <div className="flex h-32 items-end gap-px">
+                                {info.pages!.map(page => (
+                                    <div
+                                        key={page.page}
+                                        title={page.tokens !== null
+                                            ? `Page ${page.page}: ${page.tokens.toLocaleString()} tokens`
+                                            : `Page ${page.page}: ${page.error ?? 'failed'}`}
+                                        className={`flex-1 min-w-px rounded-t-sm ${
+                                            page.tokens === null ? 'bg-red-400/50' :
+                                            page.tokens > heavyThreshold ? 'bg-orange-400' : 'bg-neutral-500'
+                                        }`}
+                                        style={{ height: `${page.tokens !== null ? Math.max(2, (page.tokens / maxTokens) * 100) : 100}%` }}
+                                    />
+                                ))}
+                            </div>
+                            <p className="text-xs text-neutral-500">
+                                Orange pages cost more than {HEAVY_PAGE_FACTOR}× the median page ({Math.round(heavyThreshold / HEAVY_PAGE_FACTOR).toLocaleString()} tokens), usually because they are image-heavy.
+                            </p>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-neutral-500">
+                                        <th className="font-normal py-1">Most expensive pages</th>
+                                        <th className="font-normal py-1 text-right">Tokens</th>
+                                        <th className="font-normal py-1 text-right">Est. input cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {topPages.map(page => (
+                                        <tr key={page.page} className="border-t border-neutral-700">
+                                            <td className="py-1">Page {page.page}</td>
+                                            <td className="py-1 text-right tabular-nums">{page.estimated ? '≈' : ''}{page.tokens.toLocaleString()}</td>
+                                            <td className="py-1 text-right tabular-nums text-neutral-400">
+                                                {inputPricePerMTok !== null ? formatCost(page.tokens, inputPricePerMTok) : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {info.ranges && info.ranges.length > 0 && (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-neutral-500">
+                                    <th className="font-normal py-1">Range</th>
+                                    <th className="font-normal py-1 text-right">Tokens</th>
+                                    <th className="font-normal py-1 text-right">Est. input cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {info.ranges.map(range => (
+                                    <tr key={`${range.start}-${range.end}`} className="border-t border-neutral-700">
+                                        <td className="py-1">{rangeLabel(range)}</td>
+                                        <td className="py-1 text-right tabular-nums">
+                                            {range.tokens !== null
+                                                ? `${range.estimated ? '≈' : ''}${range.tokens.toLocaleString()}`
+                                                : <span title={range.error} className="text-neutral-500">—</span>}
+                                        </td>
+                                        <td className="py-1 text-right tabular-nums text-neutral-400">
+                                            {range.tokens !== null && inputPricePerMTok !== null ? formatCost(range.tokens, inputPricePerMTok) : '—'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,32 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Upload, FileText, Image as ImageIcon, X, ChevronDown } from "lucide-react";
+import { Upload, FileText, FileArchive, Image as ImageIcon, X, ChevronDown, Braces, Table2, Highlighter, DatabaseZap, Scissors, GitCompare, Check } from "lucide-react";
+import { formatCost } from "@/lib/utils";
+import type { ModelInfo } from "@/lib/models";
+import { useModelRegistry } from "@/hooks/useModelRegistry";
+import { CacheSimulator, CacheSimulationResult } from "@/components/cacheComponents";
+import { CACHE_BREAKPOINT_MARKER } from "@/lib/cacheCost";
+import { ContextBudget, ContextFitResult } from "@/components/contextComponents";
+import { Chunker, ChunkResult } from "@/components/chunkComponents";
+import type { ChunkOptions } from "@/lib/chunking";
+import { CodebasePanel } from "@/components/codebaseComponents";
+import type { CodebaseReport } from "@/lib/codebase";
+import { ExtractionComparison, ExtractionInfo, EXTRACTION_LABELS } from "@/components/extractionComponents";
+import type { ExtractionMethod } from "@/lib/extraction";
+import { PdfPanel, PdfInfo } from "@/components/pdfComponents";
+import { ImageEstimator } from "@/components/imageComponents";
+import type { ConversionCount } from "@/lib/uploads";
+import { ImageDimensions, readImageDimensions } from "@/lib/imageEstimate";
+import type { ApiErrorBody, ProviderError } from "@/lib/apiErrors";
+import { PromptDiffView, formatTokenDelta, formatCostDelta } from "@/components/diffComponents";
+import type { PromptDiff } from "@/lib/promptDiff";
+import { withoutFraming } from "@/lib/framing";
+import { ToolBreakdown, ToolAnalysisResult } from "@/components/toolComponents";
+import { TokenInspector, TokenInspectionResult, InspectorTokenizer } from "@/components/inspectorComponents";
+
+// Output reservation the context-window check starts with
+const DEFAULT_MAX_TOKENS = 4096;
 
 // Debounce utility function
 const debounce = <T extends (...args: any[]) => void>(func: T, delay: number) => {
@@ -12,44 +37,113 @@ const debounce = <T extends (...args: any[]) => void>(func: T, delay: number) =>
     };
 };
 
-// Available Claude models, with per-million-token input pricing (USD)
-const CLAUDE_MODELS = [
-    { id: 'claude-opus-4-7', name: 'Claude Opus 4.7', inputPricePerMTok: 15 },
-    { id: 'claude-opus-4-6', name: 'Claude Opus 4.6', inputPricePerMTok: 15 },
-    { id: 'claude-sonnet-4-6', name: 'Claude Sonnet 4.6', inputPricePerMTok: 3 },
-    { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', inputPricePerMTok: 3 },
-    { id: 'claude-opus-4-1-20250805', name: 'Claude Opus 4.1', inputPricePerMTok: 15 },
-    { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', inputPricePerMTok: 1 },
-    { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', inputPricePerMTok: 3 },
-    { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', inputPricePerMTok: 15 },
-    { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet', inputPricePerMTok: 3 },
-];
-
-// Input pricing (USD per million tokens) for comparison models.
-const GPT4O_INPUT_PRICE_PER_MTOK = 2.5;
-const GEMINI_INPUT_PRICE_PER_MTOK = 0.3;
-
-// Format a token-based cost estimate as a dollar amount. Uses more decimal
-// places for very small values so the figure doesn't just display as "$0.00".
-const formatCost = (tokens: number, pricePerMTok: number): string => {
-    const cost = (tokens / 1_000_000) * pricePerMTok;
-    if (cost === 0) return '$0.00';
-    if (cost < 0.01) return `$${cost.toFixed(5)}`;
-    if (cost < 1) return `$${cost.toFixed(4)}`;
-    return `$${cost.toFixed(2)}`;
+// Starting point for the structured payload editor
+const EXAMPLE_MESSAGES_PAYLOAD = JSON.stringify({
+    system: 'You are a helpful assistant.',
+    messages: [
+        { role: 'user', content: 'What is the weather like in Paris?' },
+        {
+            role: 'assistant',
+            content: [
+                { type: 'text', text: 'Let me check.' },
+                { type: 'tool_use', id: 'toolu_01', name: 'get_weather', input: { city: 'Paris' } }
+            ]
+        },
+        {
+            role: 'user',
+            content: [
+                { type: 'tool_result', tool_use_id: 'toolu_01', content: '18°C, partly cloudy' }
+            ]
+        }
+    ],
+    tools: [
+        {
+            name: 'get_weather',
+            description: 'Get the current weather for a city',
+            input_schema: {
+                type: 'object',
+                properties: { city: { type: 'string' } },
+                required: ['city']
+            }
+        }
+    ]
+}, null, 2);
+
+// A row of the "compare all" model matrix, or one comparison model's count
+interface ModelCountRow {
+    model: string;
+    tokens: number | null;
+    // ± tokens, set when the count is a local estimate
+    margin?: number;
+    error?: string;
+}
+
+// Map the route's `modelCounts` or `comparisons` into rows. Plain text and single files
+// drop the user-turn framing, like the headline count does.
+const toModelCountRows = (
+    modelCounts: { model: string; input_tokens: number | null; estimated?: boolean; margin?: number; error?: string }[] | null | undefined,
+    stripFraming: boolean
+): ModelCountRow[] | undefined => {
+    if (!modelCounts) return undefined;
+    return modelCounts.map(({ model, input_tokens, estimated, margin, error }) => ({
+        model,
+        tokens: input_tokens === null || !stripFraming
+            ? input_tokens
+            : withoutFraming(input_tokens),
+        margin: estimated ? margin : undefined,
+        error
+    }));
+};
+
+// Margin of a figure from the route's `estimated` map, undefined for an exact count
+const estimateMargin = (estimate: { margin?: number } | null | undefined) =>
+    estimate ? estimate.margin ?? 0 : undefined;
+
+// What to tell the user for each error code the API routes return
+const describeApiError = (body: Partial<ApiErrorBody>, status: number): string => {
+    switch (body.code) {
+        case 'invalid_model':
+            return `${body.error}. Pick a model from the list and try again.`;
+        case 'unsupported_file_type':
+            return `${body.error}. Remove the file or convert it to a supported format.`;
+        case 'payload_too_large':
+            return 'The input is too large to count. Try a smaller file, fewer files, or split the text up.';
+        case 'invalid_json':
+            return 'The request wasn\'t valid JSON. Check the payload for syntax errors.';
+        case 'rate_limited':
+            return `Too many requests for now. Try again in ${body.retryAfter ? `${body.retryAfter} seconds` : 'a moment'}.`;
+        case 'upstream_auth':
+            return 'The server\'s Anthropic API key was rejected. Whoever runs this instance needs to check ANTHROPIC_API_KEY.';
+        case 'provider_unavailable':
+            return 'The token counting API is unavailable right now. Try again shortly.';
+        case 'invalid_request':
+            return body.error ?? 'The request was invalid.';
+        default:
+            return body.error ?? `API request failed with status ${status}`;
+    }
+};
+
+// Read an API route's response, throwing an Error with an actionable message
+// when it failed
+const readApiResponse = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(describeApiError(data, response.status));
+    }
+    return data;
 };
 
-// Opus 4.7 introduced a new tokenizer — when it's selected we also run
-// Opus 4.6 for a side-by-side comparison.
-const OPUS_47_ID = 'claude-opus-4-7';
-const OPUS_46_ID = 'claude-opus-4-6';
-const OPUS_46_NAME = 'Claude Opus 4.6';
+// Prefix local estimates with "≈"
+const formatTokens = (tokens: number, margin?: number) =>
+    `${margin !== undefined ? '≈' : ''}${tokens.toLocaleString()}`;
 
 // List of supported file types
 const ACCEPTED_FILE_TYPES = {
-    image: ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp'],
+    image: ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.tif', '.tiff'],
     pdf: ['.pdf'],
-    text: ['.txt', '.md', '.js', '.jsx', '.ts', '.tsx', '.json', '.html', '.css', '.csv']
+    text: ['.txt', '.md', '.js', '.jsx', '.ts', '.tsx', '.json', '.css', '.csv'],
+    document: ['.docx', '.xlsx', '.pptx', '.html', '.htm'],
+    archive: ['.zip']
 };
 
 // Get accepted file types string for file input
@@ -57,49 +151,130 @@ const getAcceptedFileTypes = () => {
     return [
         ...ACCEPTED_FILE_TYPES.image,
         ...ACCEPTED_FILE_TYPES.pdf,
-        ...ACCEPTED_FILE_TYPES.text
+        ...ACCEPTED_FILE_TYPES.text,
+        ...ACCEPTED_FILE_TYPES.document,
+        ...ACCEPTED_FILE_TYPES.archive
     ].join(',');
 };
 
+// 'document' files (Office, HTML) have their text extracted server-side
+type FileTypeCategory = 'image' | 'pdf' | 'text' | 'document' | 'archive' | 'unknown';
+
+// A file queued for counting, with a data URL preview and the dimensions
+// (once read, null if unreadable) for images
+interface SelectedFile {
+    file: File;
+    type: FileTypeCategory;
+    preview: string | null;
+    dimensions?: ImageDimensions | null;
+}
+
+// A row of the per-file breakdown for multi-file uploads
+interface FileCountRow {
+    name: string;
+    fileType: FileTypeCategory;
+    extraction?: ExtractionMethod;
+    tokens: number | null;
+    margin?: number;
+    error?: string;
+}
+
 // Determine file type category
-const getFileTypeCategory = (file: File): 'image' | 'pdf' | 'text' | 'unknown' => {
-    if (file.type.startsWith('image/')) return 'image';
+const getFileTypeCategory = (file: File): FileTypeCategory => {
+    // Some browsers leave the type empty for TIFF and BMP, so check the name too
+    if (file.type.startsWith('image/') ||
+        ACCEPTED_FILE_TYPES.image.some(extension => file.name.toLowerCase().endsWith(extension))) return 'image';
     if (file.type === 'application/pdf') return 'pdf';
+    if (file.type === 'application/zip' ||
+        file.type === 'application/x-zip-compressed' ||
+        file.name.toLowerCase().endsWith('.zip')) return 'archive';
+    if (file.type.includes('officedocument') ||
+        file.type.includes('html') ||
+        ACCEPTED_FILE_TYPES.document.some(extension => file.name.toLowerCase().endsWith(extension))) return 'document';
     if (file.type.includes('text') ||
         file.type.includes('javascript') ||
         file.type.includes('json') ||
-        file.type.includes('html') ||
         file.type.includes('css') ||
         file.name.endsWith('.md') ||
         file.name.endsWith('.csv')) return 'text';
     return 'unknown';
 };
 
+// How long diff mode waits after the last edit before counting
+const DIFF_DEBOUNCE_MS = 300;
+
+type InputMode = 'text' | 'messages' | 'diff';
+
 export const TokenizerInput = () => {
+    // In diff mode `text` is the "after" pane
     const [text, setText] = useState('');
-    const [file, setFile] = useState<File | null>(null);
-    const [fileType, setFileType] = useState<'image' | 'pdf' | 'text' | 'unknown'>('unknown');
-    const [filePreview, setFilePreview] = useState<string | null>(null);
-    const [selectedModel, setSelectedModel] = useState(CLAUDE_MODELS[0].id);
+    const [beforeText, setBeforeText] = useState('');
+    const [inputMode, setInputMode] = useState<InputMode>('text');
+    const [payloadText, setPayloadText] = useState(EXAMPLE_MESSAGES_PAYLOAD);
+    const [files, setFiles] = useState<SelectedFile[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    const hasFiles = files.length > 0;
+    // A zip on its own is unpacked server-side as a codebase
+    const isArchive = files.length === 1 && files[0].type === 'archive';
+    const [excludeGlobs, setExcludeGlobs] = useState('');
+    const [isExportingPrompt, setIsExportingPrompt] = useState(false);
+    const isSinglePdf = files.length === 1 && files[0].type === 'pdf';
+    const [pdfPerPage, setPdfPerPage] = useState(true);
+    const [pdfPageRanges, setPdfPageRanges] = useState('');
+    const [downscaleImages, setDownscaleImages] = useState(false);
+    const registry = useModelRegistry();
+    const models = registry?.models ?? [];
+    const [selectedModel, setSelectedModel] = useState('');
     const [stats, setStats] = useState<{
         tokens: number | null;
         gpt4oTokens: number | null;
         geminiTokens: number | null;
-        comparisonTokens: number | null;
-        comparisonModel: string | null;
+        // Counts from the comparison models, in the order they were picked
+        comparisons?: ModelCountRow[];
+        // The "before" pane's count in diff mode
+        beforeTokens?: number;
+        // ± tokens for counts that are local estimates
+        tokensMargin?: number;
+        beforeMargin?: number;
+        // Why the GPT-4o or Gemini count is missing
+        gpt4oError?: ProviderError;
+        geminiError?: ProviderError;
         chars: number;
-        fileName?: string
+        fileName?: string;
+        files?: FileCountRow[];
+        codebase?: CodebaseReport;
+        extraction?: ExtractionInfo;
+        pdf?: PdfInfo;
+        conversions?: ConversionCount[];
+        modelCounts?: ModelCountRow[]
     }>({
         tokens: null,
         gpt4oTokens: null,
         geminiTokens: null,
-        comparisonTokens: null,
-        comparisonModel: null,
         chars: 0
     });
     const [error, setError] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [showModelDropdown, setShowModelDropdown] = useState(false);
+    const [compareAll, setCompareAll] = useState(false);
+    const [comparisonModels, setComparisonModels] = useState<string[]>([]);
+    const [showComparisonDropdown, setShowComparisonDropdown] = useState(false);
+    const [toolAnalysis, setToolAnalysis] = useState<ToolAnalysisResult | null>(null);
+    const [isAnalyzingTools, setIsAnalyzingTools] = useState(false);
+    const [showInspector, setShowInspector] = useState(false);
+    const [inspection, setInspection] = useState<TokenInspectionResult | null>(null);
+    const [isInspecting, setIsInspecting] = useState(false);
+    const [showCacheSimulator, setShowCacheSimulator] = useState(false);
+    const [cacheSimulation, setCacheSimulation] = useState<CacheSimulationResult | null>(null);
+    const [isSimulatingCache, setIsSimulatingCache] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [maxTokens, setMaxTokens] = useState(DEFAULT_MAX_TOKENS);
+    const [contextFit, setContextFit] = useState<ContextFitResult | null>(null);
+    const [isCheckingFit, setIsCheckingFit] = useState(false);
+    const [showChunker, setShowChunker] = useState(false);
+    const [chunkResult, setChunkResult] = useState<ChunkResult | null>(null);
+    const [isChunking, setIsChunking] = useState(false);
+    const [promptDiff, setPromptDiff] = useState<PromptDiff | null>(null);
 
     const handleAnalyzeText = async (text: string) => {
         if (!text.trim()) {
@@ -107,8 +282,6 @@ export const TokenizerInput = () => {
                 tokens: null,
                 gpt4oTokens: null,
                 geminiTokens: null,
-                comparisonTokens: null,
-                comparisonModel: null,
                 chars: 0
             });
             setError(null);
@@ -118,8 +291,6 @@ export const TokenizerInput = () => {
         try {
             setIsProcessing(true);
 
-            const comparisonModel = selectedModel === OPUS_47_ID ? OPUS_46_ID : null;
-
             // Get all token counts from the API
             const response = await fetch('/api', {
                 method: 'POST',
@@ -127,36 +298,31 @@ export const TokenizerInput = () => {
                 body: JSON.stringify({
                     text,
                     model: selectedModel,
-                    comparisonModel
+                    comparisonModels,
+                    models: compareAll ? models.map(m => m.id) : undefined
                 }),
             });
 
-            if (!response.ok) {
-                throw new Error(`API request failed with status ${response.status}`);
-            }
-
-            const data = await response.json();
+            const data = await readApiResponse(response);
             setStats({
-                tokens: data.input_tokens > 7 ? data.input_tokens - 7 : 0,
+                tokens: withoutFraming(data.input_tokens),
                 gpt4oTokens: data.gpt4oTokens,
                 geminiTokens: data.geminiTokens,
-                comparisonTokens:
-                    data.comparisonTokens != null && data.comparisonTokens > 7
-                        ? data.comparisonTokens - 7
-                        : data.comparisonTokens,
-                comparisonModel: data.comparisonModel ?? null,
+                gpt4oError: data.providerErrors?.gpt4oTokens ?? undefined,
+                geminiError: data.providerErrors?.geminiTokens ?? undefined,
+                comparisons: toModelCountRows(data.comparisons, true),
+                tokensMargin: estimateMargin(data.estimated?.input_tokens),
                 chars: text.length,
+                modelCounts: toModelCountRows(data.modelCounts, true),
             });
             setError(null);
         } catch (err) {
             console.error("Token counting error:", err);
-            setError("Failed to analyze text. Please try again.");
+            setError(err instanceof Error ? `Failed to analyze text: ${err.message}` : "Failed to analyze text. Please try again.");
             setStats({
                 tokens: null,
                 gpt4oTokens: null,
                 geminiTokens: null,
-                comparisonTokens: null,
-                comparisonModel: null,
                 chars: text.length
             });
         } finally {
@@ -164,18 +330,257 @@ export const TokenizerInput = () => {
         }
     };
 
-    const handleAnalyzeFile = async () => {
-        if (!file) return;
+    const handleAnalyzePayload = async (payloadText: string) => {
+        let payload: unknown;
+        try {
+            payload = JSON.parse(payloadText);
+        } catch {
+            setError("Payload is not valid JSON.");
+            return;
+        }
+        if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+            setError("Payload must be a JSON object with a `messages` array.");
+            return;
+        }
+
+        try {
+            setIsProcessing(true);
+
+            const response = await fetch('/api', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...payload,
+                    model: selectedModel,
+                    comparisonModels,
+                    models: compareAll ? models.map(m => m.id) : undefined
+                }),
+            });
+
+            const data = await readApiResponse(response);
+
+            // Unlike plain text, the payload's own turn framing is part of
+            // what we're measuring, so the count is shown as-is.
+            setStats({
+                tokens: data.input_tokens,
+                gpt4oTokens: null,
+                geminiTokens: null,
+                comparisons: toModelCountRows(data.comparisons, false),
+                tokensMargin: estimateMargin(data.estimated?.input_tokens),
+                chars: payloadText.length,
+                modelCounts: toModelCountRows(data.modelCounts, false),
+            });
+            setError(null);
+        } catch (err) {
+            console.error("Token counting error:", err);
+            setError(err instanceof Error ? `Failed to analyze payload: ${err.message}` : "Failed to analyze payload. Please try again.");
+            setStats({
+                tokens: null,
+                gpt4oTokens: null,
+                geminiTokens: null,
+                chars: payloadText.length
+            });
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleAnalyzeTools = async () => {
+        let payload;
+        try {
+            payload = JSON.parse(payloadText);
+        } catch {
+            setError("Payload is not valid JSON.");
+            return;
+        }
+
+        try {
+            setIsAnalyzingTools(true);
+
+            const response = await fetch('/api/tools', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...payload,
+                    model: selectedModel
+                }),
+            });
+
+            const data = await readApiResponse(response);
+
+            setToolAnalysis(data);
+            setError(null);
+        } catch (err) {
+            console.error("Tool analysis error:", err);
+            setError(err instanceof Error ? `Failed to analyze tools: ${err.message}` : "Failed to analyze tools. Please try again.");
+            setToolAnalysis(null);
+        } finally {
+            setIsAnalyzingTools(false);
+        }
+    };
+
+    const handleInspect = async (tokenizer: InspectorTokenizer) => {
+        if (!text.trim()) return;
+
+        try {
+            setIsInspecting(true);
+
+            const response = await fetch('/api/inspect', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    text,
+                    model: selectedModel,
+                    tokenizer
+                }),
+            });
+
+            const data = await readApiResponse(response);
+
+            setInspection(data);
+            setError(null);
+        } catch (err) {
+            console.error("Token inspection error:", err);
+            setError(err instanceof Error ? `Failed to inspect tokens: ${err.message}` : "Failed to inspect tokens. Please try again.");
+            setInspection(null);
+        } finally {
+            setIsInspecting(false);
+        }
+    };
+
+    const handleSimulateCache = async () => {
+        let body: Record<string, unknown>;
+        if (inputMode === 'messages') {
+            try {
+                body = JSON.parse(payloadText);
+            } catch {
+                setError("Payload is not valid JSON.");
+                return;
+            }
+        } else {
+            body = { text };
+        }
+
+        try {
+            setIsSimulatingCache(true);
+
+            const response = await fetch('/api/cache', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...body,
+                    model: selectedModel
+                }),
+            });
+
+            const data = await readApiResponse(response);
+
+            setCacheSimulation(data);
+            setError(null);
+        } catch (err) {
+            console.error("Cache simulation error:", err);
+            setError(err instanceof Error ? `Failed to simulate caching: ${err.message}` : "Failed to simulate caching. Please try again.");
+            setCacheSimulation(null);
+        } finally {
+            setIsSimulatingCache(false);
+        }
+    };
+
+    const handleFindCutPoint = async () => {
+        try {
+            setIsCheckingFit(true);
+
+            const response = await fetch('/api/fit', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    text,
+                    model: selectedModel,
+                    maxTokens
+                }),
+            });
+
+            const data = await readApiResponse(response);
+
+            setContextFit(data);
+            setError(null);
+        } catch (err) {
+            console.error("Context fit error:", err);
+            setError(err instanceof Error ? `Failed to find a cut point: ${err.message}` : "Failed to find a cut point. Please try again.");
+            setContextFit(null);
+        } finally {
+            setIsCheckingFit(false);
+        }
+    };
+
+    const handleChunk = async (options: ChunkOptions) => {
+        if (!text.trim()) return;
+
+        try {
+            setIsChunking(true);
+
+            const response = await fetch('/api/chunk', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    text,
+                    model: selectedModel,
+                    ...options
+                }),
+            });
+
+            const data = await readApiResponse(response);
+
+            setChunkResult(data);
+            setError(null);
+        } catch (err) {
+            console.error("Chunking error:", err);
+            setError(err instanceof Error ? `Failed to chunk text: ${err.message}` : "Failed to chunk text. Please try again.");
+            setChunkResult(null);
+        } finally {
+            setIsChunking(false);
+        }
+    };
+
+    const copyTruncatedText = async () => {
+        if (contextFit?.cutOffset == null) return;
+        await navigator.clipboard.writeText(text.slice(0, contextFit.cutOffset));
+    };
+
+    // Drop a cache breakpoint marker in at the cursor
+    const insertCacheBreakpoint = () => {
+        const textarea = textareaRef.current;
+        const position = textarea?.selectionStart ?? text.length;
+        setText(text.slice(0, position) + CACHE_BREAKPOINT_MARKER + text.slice(position));
+        textarea?.focus();
+    };
+
+    const handleAnalyzeFiles = async () => {
+        if (!hasFiles) return;
 
         setIsProcessing(true);
 
         try {
             const formData = new FormData();
-            formData.append('file', file);
+            files.forEach(({ file, type }) => {
+                // Type first, so the route can hold the file to its limit as it uploads
+                formData.append('fileType', type);
+                formData.append('file', file);
+            });
             formData.append('model', selectedModel);
-            formData.append('fileType', fileType);
-            if (selectedModel === OPUS_47_ID) {
-                formData.append('comparisonModel', OPUS_46_ID);
+            if (isArchive) {
+                formData.append('exclude', excludeGlobs);
+            }
+            if (isSinglePdf) {
+                formData.append('pages', String(pdfPerPage));
+                formData.append('pageRanges', pdfPageRanges);
+            }
+            if (files.some(({ type }) => type === 'image')) {
+                formData.append('downscale', String(downscaleImages));
+            }
+            comparisonModels.forEach(id => formData.append('comparisonModels', id));
+            if (compareAll) {
+                models.forEach(m => formData.append('models', m.id));
             }
 
             const response = await fetch('/api', {
@@ -183,33 +588,44 @@ export const TokenizerInput = () => {
                 body: formData,
             });
 
-            if (!response.ok) {
-                throw new Error(`API request failed with status ${response.status}`);
-            }
-
-            const data = await response.json();
+            const data = await readApiResponse(response);
             setStats({
-                tokens: data.input_tokens > 7 ? data.input_tokens - 7 : 0,
+                tokens: withoutFraming(data.input_tokens),
                 gpt4oTokens: data.gpt4oTokens,
                 geminiTokens: data.geminiTokens,
-                comparisonTokens:
-                    data.comparisonTokens != null && data.comparisonTokens > 7
-                        ? data.comparisonTokens - 7
-                        : data.comparisonTokens,
-                comparisonModel: data.comparisonModel ?? null,
+                gpt4oError: data.providerErrors?.gpt4oTokens ?? undefined,
+                geminiError: data.providerErrors?.geminiTokens ?? undefined,
+                comparisons: toModelCountRows(data.comparisons, true),
+                tokensMargin: estimateMargin(data.estimated?.input_tokens),
                 chars: data.fileChars || 0,
-                fileName: file.name
+                fileName: files.length === 1 ? files[0].file.name : `${files.length} files`,
+                files: data.files?.map((row: { name: string; fileType: FileTypeCategory; extraction?: ExtractionMethod; input_tokens: number | null; estimated?: boolean; margin?: number; error?: string }) => ({
+                    name: row.name,
+                    fileType: row.fileType,
+                    extraction: row.extraction,
+                    tokens: row.input_tokens === null ? null : withoutFraming(row.input_tokens),
+                    margin: row.estimated ? row.margin : undefined,
+                    error: row.error
+                })),
+                codebase: data.codebase ?? undefined,
+                extraction: data.extraction ? {
+                    ...data.extraction,
+                    rawTokens: data.extraction.rawTokens != null
+                        ? withoutFraming(data.extraction.rawTokens)
+                        : data.extraction.rawTokens
+                } : undefined,
+                pdf: data.pdf ?? undefined,
+                conversions: data.conversions ?? undefined,
+                modelCounts: toModelCountRows(data.modelCounts, true)
             });
             setError(null);
         } catch (err) {
             console.error("Token counting error:", err);
-            setError("Failed to analyze file. Please try again.");
+            setError(err instanceof Error ? `Failed to analyze files: ${err.message}` : "Failed to analyze files. Please try again.");
             setStats({
                 tokens: null,
                 gpt4oTokens: null,
                 geminiTokens: null,
-                comparisonTokens: null,
-                comparisonModel: null,
                 chars: 0
             });
         } finally {
@@ -217,62 +633,265 @@ export const TokenizerInput = () => {
         }
     };
 
-    // Debounced version of handleAnalyzeText
-    const debouncedHandleAnalyzeText = useCallback(debounce(handleAnalyzeText, 300), [selectedModel]);
+    // Download the archive's files concatenated into one prompt
+    const handleExportPrompt = async () => {
+        if (!isArchive) return;
+
+        setIsExportingPrompt(true);
+
+        try {
+            const formData = new FormData();
+            formData.append('fileType', 'archive');
+            formData.append('file', files[0].file);
+            formData.append('exclude', excludeGlobs);
+            formData.append('format', 'prompt');
+
+            const response = await fetch('/api', {
+                method: 'POST',
+                body: formData,
+            });
+
+            if (!response.ok) {
+                await readApiResponse(response);
+            }
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${files[0].file.name.replace(/\.zip$/i, '')}-prompt.txt`;
+            link.click();
+            URL.revokeObjectURL(url);
+            setError(null);
+        } catch (err) {
+            console.error("Prompt export error:", err);
+            setError(err instanceof Error ? `Failed to export the prompt: ${err.message}` : "Failed to export the prompt. Please try again.");
+        } finally {
+            setIsExportingPrompt(false);
+        }
+    };
+
+    // The latest handlers, for the debounced wrappers below to call
+    const analyzeTextRef = useRef(handleAnalyzeText);
+    analyzeTextRef.current = handleAnalyzeText;
+    const analyzePayloadRef = useRef(handleAnalyzePayload);
+    analyzePayloadRef.current = handleAnalyzePayload;
+
+    // Debounced versions of handleAnalyzeText and handleAnalyzePayload
+    const debouncedHandleAnalyzeText = useMemo(
+        () => debounce((value: string) => analyzeTextRef.current(value), 300),
+        []
+    );
+    const debouncedHandleAnalyzePayload = useMemo(
+        () => debounce((value: string) => analyzePayloadRef.current(value), 300),
+        []
+    );
+
+    // Start on the registry's default model, and its default comparisons,
+    // once it has loaded
+    useEffect(() => {
+        if (registry && !selectedModel) {
+            setSelectedModel(registry.defaultModel);
+            setComparisonModels(registry.models.find(m => m.id === registry.defaultModel)?.defaultComparisons ?? []);
+        }
+    }, [registry, selectedModel]);
 
+    // Recount when the input or the model and comparison settings change
     useEffect(() => {
-        if (!file && text) {
+        if (!hasFiles && inputMode === 'text' && text) {
             debouncedHandleAnalyzeText(text);
         }
-    }, [text, debouncedHandleAnalyzeText, file]);
+    }, [text, debouncedHandleAnalyzeText, hasFiles, inputMode, selectedModel, compareAll, comparisonModels, registry]);
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const selectedFile = event.target.files?.[0] || null;
-        if (selectedFile) {
-            const type = getFileTypeCategory(selectedFile);
-            setFile(selectedFile);
-            setFileType(type);
-            setText('');
+    // A cut point is only valid for the text, model and budget it was found for
+    useEffect(() => {
+        setContextFit(null);
+    }, [text, selectedModel, maxTokens]);
+
+    useEffect(() => {
+        if (!hasFiles && inputMode === 'messages' && payloadText.trim()) {
+            debouncedHandleAnalyzePayload(payloadText);
+        }
+    }, [payloadText, debouncedHandleAnalyzePayload, hasFiles, inputMode, selectedModel, compareAll, comparisonModels, registry]);
+
+    // Diff mode: count both panes through the route and diff them, once
+    // editing pauses. A newer edit discards an older run's results.
+    useEffect(() => {
+        if (hasFiles || inputMode !== 'diff' || !registry || !selectedModel) return;
+        if (!beforeText.trim() && !text.trim()) {
             setStats({
                 tokens: null,
                 gpt4oTokens: null,
                 geminiTokens: null,
-                comparisonTokens: null,
-                comparisonModel: null,
-                chars: 0,
-                fileName: selectedFile.name
+                chars: 0
             });
-            
-            // Create preview for image files
-            if (type === 'image') {
-                const reader = new FileReader();
-                reader.onload = (e) => {
-                    setFilePreview(e.target?.result as string);
-                };
-                reader.readAsDataURL(selectedFile);
-            } else {
-                setFilePreview(null);
-            }
+            setPromptDiff(null);
+            setError(null);
+            return;
         }
+
+        let cancelled = false;
+        const timeout = setTimeout(async () => {
+            // Empty panes count as nothing rather than as an empty user turn
+            const countPane = (paneText: string, withModels: boolean) => paneText.trim()
+                ? fetch('/api', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        text: paneText,
+                        model: selectedModel,
+                        comparisonModels: withModels ? comparisonModels : undefined,
+                        models: withModels && compareAll ? registry.models.map(m => m.id) : undefined
+                    }),
+                }).then(readApiResponse)
+                : Promise.resolve(null);
+
+            try {
+                setIsProcessing(true);
+
+                const [beforeData, afterData, diff] = await Promise.all([
+                    countPane(beforeText, false),
+                    countPane(text, true),
+                    fetch('/api/diff', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ before: beforeText, after: text, model: selectedModel }),
+                    }).then(readApiResponse)
+                ]);
+                if (cancelled) return;
+
+                const stripFraming = (tokens: number | null | undefined) =>
+                    tokens == null ? null : withoutFraming(tokens);
+                setStats({
+                    tokens: stripFraming(afterData?.input_tokens) ?? 0,
+                    gpt4oTokens: afterData?.gpt4oTokens ?? null,
+                    geminiTokens: afterData?.geminiTokens ?? null,
+                    gpt4oError: afterData?.providerErrors?.gpt4oTokens ?? undefined,
+                    geminiError: afterData?.providerErrors?.geminiTokens ?? undefined,
+                    comparisons: toModelCountRows(afterData?.comparisons, true),
+                    beforeTokens: stripFraming(beforeData?.input_tokens) ?? 0,
+                    tokensMargin: estimateMargin(afterData?.estimated?.input_tokens),
+                    beforeMargin: estimateMargin(beforeData?.estimated?.input_tokens),
+                    chars: text.length,
+                    modelCounts: toModelCountRows(afterData?.modelCounts, true),
+                });
+                setPromptDiff(diff);
+                setError(null);
+            } catch (err) {
+                if (cancelled) return;
+                console.error("Prompt diff error:", err);
+                setError(err instanceof Error ? `Failed to compare versions: ${err.message}` : "Failed to compare versions. Please try again.");
+                setPromptDiff(null);
+            } finally {
+                if (!cancelled) setIsProcessing(false);
+            }
+        }, DIFF_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+            setIsProcessing(false);
+        };
+    }, [beforeText, text, hasFiles, inputMode, selectedModel, compareAll, comparisonModels, registry]);
+
+    // Queue files from the picker, a drop or a paste after any already queued
+    const addFiles = useCallback((newFiles: File[]) => {
+        if (newFiles.length === 0) return;
+
+        const selected = newFiles.map(file => ({ file, type: getFileTypeCategory(file), preview: null }));
+        setFiles(prev => [...prev, ...selected]);
+        setText('');
+        setStats({
+            tokens: null,
+            gpt4oTokens: null,
+            geminiTokens: null,
+            chars: 0
+        });
+
+        // Create previews for image files and read their dimensions for the
+        // offline estimate
+        selected.filter(({ type }) => type === 'image').forEach(({ file }) => {
+            const reader = new FileReader();
+            reader.onload = (e) => {
+                const preview = e.target?.result as string;
+                setFiles(prev => prev.map(entry => entry.file === file ? { ...entry, preview } : entry));
+            };
+            reader.readAsDataURL(file);
+
+            file.arrayBuffer().then(buffer => {
+                const dimensions = readImageDimensions(new Uint8Array(buffer));
+                setFiles(prev => prev.map(entry => entry.file === file ? { ...entry, dimensions } : entry));
+            });
+        });
+    }, []);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        addFiles(Array.from(event.target.files ?? []));
+        // Reset the file input so the same file can be picked again
+        event.target.value = '';
     };
 
-    const clearFile = () => {
-        setFile(null);
-        setFileType('unknown');
-        setFilePreview(null);
+    const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+        if (!event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        setIsDragging(true);
+    };
+
+    const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+        // Ignore leave events fired when moving between child elements
+        if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+        setIsDragging(false);
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        addFiles(Array.from(event.dataTransfer.files));
+    };
+
+    // Pasted files (including images copied to the clipboard) are queued;
+    // plain-text pastes are left to the focused input
+    useEffect(() => {
+        const handlePaste = (event: ClipboardEvent) => {
+            const pasted = Array.from(event.clipboardData?.files ?? []);
+            if (pasted.length === 0) return;
+            event.preventDefault();
+            addFiles(pasted);
+        };
+        document.addEventListener('paste', handlePaste);
+        return () => document.removeEventListener('paste', handlePaste);
+    }, [addFiles]);
+
+    const removeFile = (index: number) => {
+        setFiles(prev => prev.filter((_, i) => i !== index));
+        setStats({
+            tokens: null,
+            gpt4oTokens: null,
+            geminiTokens: null,
+            chars: 0
+        });
+    };
+
+    const clearFiles = () => {
+        setFiles([]);
+        setStats({
+            tokens: null,
+            gpt4oTokens: null,
+            geminiTokens: null,
+            chars: 0
+        });
+    };
+
+    const switchInputMode = (mode: InputMode) => {
+        setInputMode(mode);
+        setError(null);
+        setToolAnalysis(null);
+        setPromptDiff(null);
         setStats({
             tokens: null,
             gpt4oTokens: null,
             geminiTokens: null,
-            comparisonTokens: null,
-            comparisonModel: null,
             chars: 0
         });
-        // Reset the file input
-        const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-        if (fileInput) {
-            fileInput.value = '';
-        }
     };
 
     const toggleModelDropdown = () => {
@@ -281,21 +900,71 @@ export const TokenizerInput = () => {
 
     const selectModel = (modelId: string) => {
         setSelectedModel(modelId);
+        // A model isn't compared against itself
+        setComparisonModels(prev => prev.filter(id => id !== modelId));
         setShowModelDropdown(false);
     };
 
-    const selectedModelInfo = CLAUDE_MODELS.find(m => m.id === selectedModel);
+    const toggleComparisonModel = (modelId: string) => {
+        setComparisonModels(prev => prev.includes(modelId)
+            ? prev.filter(id => id !== modelId)
+            : [...prev, modelId]);
+    };
+
+    const selectedModelInfo = models.find(m => m.id === selectedModel);
     const selectedModelName = selectedModelInfo?.name || selectedModel;
-    const selectedModelPrice = selectedModelInfo?.inputPricePerMTok ?? null;
-    const comparisonModelInfo = stats.comparisonModel
-        ? CLAUDE_MODELS.find(m => m.id === stats.comparisonModel)
-        : null;
-    const comparisonModelPrice = comparisonModelInfo?.inputPricePerMTok ?? null;
+    const selectedModelPrice = selectedModelInfo?.pricing.inputPerMTok ?? null;
+    const reservedOutputTokens = Math.min(maxTokens, selectedModelInfo?.maxOutputTokens ?? maxTokens);
+    const overflowsContext = !!selectedModelInfo && stats.tokens !== null &&
+        stats.tokens > selectedModelInfo.contextWindow - reservedOutputTokens;
+    // A single file keeps its own type; a set of text files still counts as text
+    const combinedFileType: FileTypeCategory = files.length === 1
+        ? files[0].type
+        : files.every(({ type }) => type === 'text' || type === 'document') ? 'text' : 'unknown';
 
     return (
-        <div className="flex flex-col space-y-4 max-w-3xl mx-auto">
+        <div
+            className={`flex flex-col space-y-4 max-w-3xl mx-auto rounded-xl ${isDragging ? 'outline-dashed outline-2 outline-offset-8 outline-neutral-500' : ''}`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
             {/* Model selector */}
-            <div className="flex justify-end mb-2 relative">
+            <div className="flex justify-end gap-2 mb-2 relative">
+                <button
+                    onClick={() => setCompareAll(!compareAll)}
+                    className={`flex items-center gap-2 rounded-md border border-neutral-700 px-3 py-2 text-sm hover:bg-neutral-700 ${compareAll ? 'bg-neutral-700' : 'bg-neutral-800'}`}
+                >
+                    <Table2 size={16} />
+                    Compare all models
+                </button>
+                <div className="relative">
+                    <button
+                        onClick={() => setShowComparisonDropdown(!showComparisonDropdown)}
+                        className={`flex items-center gap-2 rounded-md border border-neutral-700 px-3 py-2 text-sm hover:bg-neutral-700 ${comparisonModels.length > 0 ? 'bg-neutral-700' : 'bg-neutral-800'}`}
+                    >
+                        <GitCompare size={16} />
+                        {comparisonModels.length > 0 ? `Compare with ${comparisonModels.length}` : 'Compare with'}
+                        <ChevronDown size={16} className={`transition-transform ${showComparisonDropdown ? 'rotate-180' : ''}`} />
+                    </button>
+                    {showComparisonDropdown && (
+                        <div className="absolute right-0 top-full mt-1 w-64 rounded-md border border-neutral-700 bg-neutral-800 shadow-lg z-10">
+                            <div className="py-1">
+                                {models.filter(model => model.id !== selectedModel).map((model) => (
+                                    <div
+                                        key={model.id}
+                                        className="flex items-center gap-2 px-4 py-2 text-sm cursor-pointer hover:bg-neutral-700"
+                                        onClick={() => toggleComparisonModel(model.id)}
+                                    >
+                                        <Check size={14} className={comparisonModels.includes(model.id) ? '' : 'invisible'} />
+                                        {model.name}
+                                        {model.deprecated && <span className="ml-auto text-xs text-neutral-500">deprecated</span>}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
                 <div
                     className="flex items-center gap-2 cursor-pointer rounded-md border border-neutral-700 bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700"
                     onClick={toggleModelDropdown}
@@ -307,13 +976,14 @@ export const TokenizerInput = () => {
                 {showModelDropdown && (
                     <div className="absolute right-0 top-full mt-1 w-64 rounded-md border border-neutral-700 bg-neutral-800 shadow-lg z-10">
                         <div className="py-1">
-                            {CLAUDE_MODELS.map((model) => (
+                            {models.map((model) => (
                                 <div
                                     key={model.id}
                                     className={`px-4 py-2 text-sm cursor-pointer hover:bg-neutral-700 ${model.id === selectedModel ? 'bg-neutral-700' : ''}`}
                                     onClick={() => selectModel(model.id)}
                                 >
                                     {model.name}
+                                    {model.deprecated && <span className="ml-2 text-xs text-neutral-500">deprecated</span>}
                                 </div>
                             ))}
                         </div>
@@ -328,33 +998,88 @@ export const TokenizerInput = () => {
                         <input
                             type="file"
                             id="file-upload"
+                            multiple
                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                             onChange={handleFileChange}
                             accept={getAcceptedFileTypes()}
                         />
                         <button className="flex items-center gap-2 rounded-md bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700 border border-neutral-700">
                             <Upload size={16} />
-                            Upload File
+                            {hasFiles ? 'Add Files' : 'Upload Files'}
                         </button>
                     </div>
-                    {file && (
-                        <div className="flex items-center rounded-md bg-neutral-800 border border-neutral-700 px-3 py-1.5 text-sm">
-                            {fileType === 'image' && <ImageIcon size={14} className="mr-2" />}
-                            {fileType === 'pdf' && <FileText size={14} className="mr-2" />}
-                            {fileType === 'text' && <FileText size={14} className="mr-2" />}
-                            <span className="truncate max-w-[150px]">{file.name}</span>
-                            <button 
-                                onClick={clearFile}
-                                className="ml-2 text-neutral-400 hover:text-white"
+                    {!hasFiles && (
+                        <div className="flex rounded-md border border-neutral-700 overflow-hidden text-sm">
+                            <button
+                                onClick={() => switchInputMode('text')}
+                                className={`px-3 py-2 ${inputMode === 'text' ? 'bg-neutral-700' : 'bg-neutral-800 hover:bg-neutral-700'}`}
                             >
-                                <X size={14} />
+                                Text
+                            </button>
+                            <button
+                                onClick={() => switchInputMode('messages')}
+                                className={`flex items-center gap-2 px-3 py-2 border-l border-neutral-700 ${inputMode === 'messages' ? 'bg-neutral-700' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                            >
+                                <Braces size={14} />
+                                Messages JSON
+                            </button>
+                            <button
+                                onClick={() => switchInputMode('diff')}
+                                className={`flex items-center gap-2 px-3 py-2 border-l border-neutral-700 ${inputMode === 'diff' ? 'bg-neutral-700' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                            >
+                                <GitCompare size={14} />
+                                Diff
                             </button>
                         </div>
                     )}
+                    {hasFiles && (
+                        <button
+                            onClick={clearFiles}
+                            className="px-2 text-sm text-neutral-400 hover:text-white"
+                        >
+                            Clear all
+                        </button>
+                    )}
                 </div>
-                {file && (
+                {!hasFiles && inputMode === 'text' && (
+                    <button
+                        onClick={() => setShowInspector(!showInspector)}
+                        className={`flex items-center gap-2 whitespace-nowrap rounded-md px-4 py-2 text-sm hover:bg-neutral-700 border border-neutral-700 ${showInspector ? 'bg-neutral-700' : 'bg-neutral-800'}`}
+                    >
+                        <Highlighter size={16} />
+                        Inspect Tokens
+                    </button>
+                )}
+                {!hasFiles && inputMode === 'text' && (
+                    <button
+                        onClick={() => setShowChunker(!showChunker)}
+                        className={`flex items-center gap-2 whitespace-nowrap rounded-md px-4 py-2 text-sm hover:bg-neutral-700 border border-neutral-700 ${showChunker ? 'bg-neutral-700' : 'bg-neutral-800'}`}
+                    >
+                        <Scissors size={16} />
+                        Chunk
+                    </button>
+                )}
+                {!hasFiles && inputMode !== 'diff' && (
+                    <button
+                        onClick={() => setShowCacheSimulator(!showCacheSimulator)}
+                        className={`flex items-center gap-2 whitespace-nowrap rounded-md px-4 py-2 text-sm hover:bg-neutral-700 border border-neutral-700 ${showCacheSimulator ? 'bg-neutral-700' : 'bg-neutral-800'}`}
+                    >
+                        <DatabaseZap size={16} />
+                        Caching
+                    </button>
+                )}
+                {!hasFiles && inputMode === 'messages' && (
+                    <button
+                        onClick={handleAnalyzeTools}
+                        disabled={isAnalyzingTools}
+                        className="whitespace-nowrap rounded-md bg-neutral-800 px-4 py-2 text-sm hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isAnalyzingTools ? 'Analyzing...' : 'Analyze Tools'}
+                    </button>
+                )}
+                {hasFiles && (
                     <button
-                        onClick={handleAnalyzeFile}
+                        onClick={handleAnalyzeFiles}
                         disabled={isProcessing}
                         className="whitespace-nowrap rounded-md bg-neutral-800 px-4 py-2 text-sm hover:bg-neutral-700 border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
@@ -363,21 +1088,47 @@ export const TokenizerInput = () => {
                 )}
             </div>
             
-            {/* Image preview */}
-            {filePreview && fileType === 'image' && (
-                <div className="rounded-xl border border-neutral-700 bg-neutral-800 p-4 flex justify-center">
-                    <img
-                        src={filePreview}
-                        alt="Preview"
-                        className="max-h-64 object-contain rounded-md"
-                    />
+            {/* Queued files */}
+            {hasFiles && (
+                <div className="flex flex-wrap gap-2">
+                    {files.map(({ file, type }, index) => (
+                        <div key={`${file.name}-${index}`} className="flex items-center rounded-md bg-neutral-800 border border-neutral-700 px-3 py-1.5 text-sm">
+                            {type === 'image' && <ImageIcon size={14} className="mr-2" />}
+                            {type === 'pdf' && <FileText size={14} className="mr-2" />}
+                            {type === 'text' && <FileText size={14} className="mr-2" />}
+                            {type === 'document' && <FileText size={14} className="mr-2" />}
+                            {type === 'archive' && <FileArchive size={14} className="mr-2" />}
+                            <span className="truncate max-w-[150px]">{file.name}</span>
+                            <button
+                                onClick={() => removeFile(index)}
+                                className="ml-2 text-neutral-400 hover:text-white"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Image previews */}
+            {files.some(({ preview }) => preview) && (
+                <div className="rounded-xl border border-neutral-700 bg-neutral-800 p-4 flex flex-wrap justify-center gap-4">
+                    {files.filter(({ preview }) => preview).map(({ file, preview }, index) => (
+                        <img
+                            key={`${file.name}-${index}`}
+                            src={preview as string}
+                            alt={file.name}
+                            className={`${files.length === 1 ? 'max-h-64' : 'max-h-32'} object-contain rounded-md`}
+                        />
+                    ))}
                 </div>
             )}
             
             {/* Text input area */}
-            {!file && (
+            {!hasFiles && inputMode === 'text' && (
                 <div className="rounded-xl border border-neutral-700 bg-neutral-800 overflow-hidden">
                     <Textarea
+                        ref={textareaRef}
                         placeholder="Enter some text to count tokens..."
                         rows={10}
                         className="font-mono bg-transparent border-0 focus-visible:ring-0 resize-none p-4"
@@ -388,57 +1139,241 @@ export const TokenizerInput = () => {
                 </div>
             )}
             
+            {/* Before and after versions of a prompt for diff mode */}
+            {!hasFiles && inputMode === 'diff' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {([['Before', beforeText, setBeforeText], ['After', text, setText]] as const).map(([label, value, onChange]) => (
+                        <div key={label} className="rounded-xl border border-neutral-700 bg-neutral-800 overflow-hidden">
+                            <h2 className="px-4 pt-3 text-xs font-medium text-neutral-400">{label}</h2>
+                            <Textarea
+                                placeholder={`Paste the ${label.toLowerCase()} version of the prompt...`}
+                                rows={14}
+                                className="font-mono text-xs bg-transparent border-0 focus-visible:ring-0 resize-y p-4"
+                                value={value}
+                                onChange={(e) => onChange(e.target.value)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Structured Messages API payload editor */}
+            {!hasFiles && inputMode === 'messages' && (
+                <div className="rounded-xl border border-neutral-700 bg-neutral-800 overflow-hidden">
+                    <Textarea
+                        placeholder='{ "system": "...", "messages": [{ "role": "user", "content": "..." }], "tools": [] }'
+                        rows={18}
+                        spellCheck={false}
+                        className="font-mono text-xs bg-transparent border-0 focus-visible:ring-0 resize-y p-4"
+                        value={payloadText}
+                        onChange={(e) => setPayloadText(e.target.value)}
+                    />
+                    <p className="px-4 pb-3 text-xs text-neutral-500">
+                        Accepts <code>system</code>, <code>messages</code>, <code>tools</code>, <code>tool_choice</code> and <code>thinking</code> as in a Messages API request.
+                    </p>
+                </div>
+            )}
+
             {error && <p className="text-orange-400 mb-2">{error}</p>}
 
-            {/* Opus 4.7 new-tokenizer notice */}
-            {selectedModel === OPUS_47_ID && (
+            {/* Tokenizer notice from the registry, e.g. for a new tokenizer */}
+            {selectedModelInfo?.tokenizerNotice && (
                 <div className="rounded-md border border-amber-600/40 bg-amber-950/30 px-4 py-3 text-sm text-amber-200">
-                    <span className="font-medium">Heads up:</span> Claude Opus 4.7 uses a
-                    new tokenizer that typically produces <em>more</em> tokens for the same
-                    input than Opus 4.6 and earlier models. For reference we also run the
-                    Opus 4.6 tokenizer and show both counts below.
+                    <span className="font-medium">Heads up:</span> {selectedModelInfo.tokenizerNotice}
+                    {comparisonModels.length === 0 && ' Pick a model to compare with to see the difference.'}
+                </div>
+            )}
+
+            {/* Local-estimate notice when the counting API wasn't used */}
+            {!isProcessing && stats.tokens !== null && stats.tokensMargin !== undefined && (
+                <div className="rounded-md border border-amber-600/40 bg-amber-950/30 px-4 py-3 text-sm text-amber-200">
+                    <span className="font-medium">Estimated:</span> the token counting API
+                    isn&apos;t available (no API key, or the request failed), so Claude
+                    figures marked ≈ are local estimates with the margin shown, not exact counts.
                 </div>
             )}
 
             {/* Token metrics display */}
             <TokenMetrics
                 tokens={stats.tokens ?? 0}
+                tokensMargin={stats.tokensMargin}
                 gpt4oTokens={stats.gpt4oTokens}
+                gpt4oError={stats.gpt4oError}
                 geminiTokens={stats.geminiTokens}
-                comparisonTokens={stats.comparisonTokens}
-                comparisonModelName={
-                    stats.comparisonModel === OPUS_46_ID
-                        ? OPUS_46_NAME
-                        : stats.comparisonModel
-                }
+                geminiError={stats.geminiError}
+                comparisons={stats.comparisons}
+                beforeTokens={!hasFiles && inputMode === 'diff' ? stats.beforeTokens : undefined}
+                beforeMargin={stats.beforeMargin}
                 chars={stats.chars}
                 isProcessing={isProcessing}
                 fileName={stats.fileName}
-                fileType={file ? fileType : 'text'}
+                fileType={hasFiles ? combinedFileType : 'text'}
+                files={stats.files}
                 model={selectedModelName}
                 modelInputPricePerMTok={selectedModelPrice}
-                comparisonInputPricePerMTok={comparisonModelPrice}
+                gpt4oInputPricePerMTok={registry?.comparisonProviders.gpt4o.inputPricePerMTok ?? null}
+                geminiInputPricePerMTok={registry?.comparisonProviders.gemini.inputPricePerMTok ?? null}
+                models={models}
+                contextWindow={selectedModelInfo?.contextWindow ?? null}
+                reservedOutputTokens={reservedOutputTokens}
+                modelCounts={compareAll ? stats.modelCounts : undefined}
+                selectedModelId={selectedModel}
+            />
+
+            {/* Output reservation and truncation for the context-window check */}
+            <ContextBudget
+                maxTokens={maxTokens}
+                maxOutputTokens={selectedModelInfo?.maxOutputTokens ?? null}
+                onMaxTokensChange={setMaxTokens}
+                overflows={overflowsContext}
+                canTruncate={!hasFiles && inputMode === 'text'}
+                fit={contextFit}
+                isProcessing={isCheckingFit}
+                onFindCutPoint={handleFindCutPoint}
+                onCopyTruncated={copyTruncatedText}
             />
+
+            {/* Which extraction a single Office or HTML upload went through */}
+            {hasFiles && stats.extraction && !isProcessing && (
+                <ExtractionComparison
+                    extraction={stats.extraction}
+                    extractedTokens={stats.tokens}
+                    inputPricePerMTok={selectedModelPrice}
+                />
+            )}
+
+            {/* Offline token estimates for queued images */}
+            {files.some(({ type }) => type === 'image') && (
+                <ImageEstimator
+                    images={files.flatMap(({ file, type, preview, dimensions }, index) => type === 'image' ? [{
+                        name: file.name,
+                        preview,
+                        dimensions,
+                        apiTokens: isProcessing ? null : files.length === 1 ? stats.tokens : stats.files?.[index]?.tokens ?? null
+                    }] : [])}
+                    conversions={isProcessing ? null : stats.conversions ?? null}
+                    downscale={downscaleImages}
+                    onDownscaleChange={setDownscaleImages}
+                    inputPricePerMTok={selectedModelPrice}
+                />
+            )}
+
+            {/* Per-page chart and page ranges for a single PDF */}
+            {isSinglePdf && (
+                <PdfPanel
+                    info={stats.pdf ?? null}
+                    perPage={pdfPerPage}
+                    onPerPageChange={setPdfPerPage}
+                    pageRanges={pdfPageRanges}
+                    onPageRangesChange={setPdfPageRanges}
+                    isProcessing={isProcessing}
+                    inputPricePerMTok={selectedModelPrice}
+                />
+            )}
+
+            {/* Per-folder report, exclude globs and prompt export for a zip */}
+            {isArchive && (
+                <CodebasePanel
+                    report={stats.codebase ?? null}
+                    exclude={excludeGlobs}
+                    onExcludeChange={setExcludeGlobs}
+                    isProcessing={isProcessing}
+                    isExporting={isExportingPrompt}
+                    onExport={handleExportPrompt}
+                    inputPricePerMTok={selectedModelPrice}
+                />
+            )}
+
+            {/* Token boundary highlighting for plain text */}
+            {!hasFiles && inputMode === 'text' && showInspector && (
+                <TokenInspector
+                    inspection={inspection}
+                    isProcessing={isInspecting}
+                    tokenizerLabel={selectedModelName}
+                    onInspect={handleInspect}
+                />
+            )}
+
+            {/* Token-limited chunks for RAG ingestion */}
+            {!hasFiles && inputMode === 'text' && showChunker && (
+                <Chunker
+                    result={chunkResult}
+                    isProcessing={isChunking}
+                    onChunk={handleChunk}
+                />
+            )}
+
+            {/* Line diff with per-hunk token deltas */}
+            {!hasFiles && inputMode === 'diff' && (
+                <PromptDiffView
+                    diff={promptDiff}
+                    isProcessing={isProcessing}
+                    inputPricePerMTok={selectedModelPrice}
+                />
+            )}
+
+            {/* Prompt caching cost projection */}
+            {!hasFiles && inputMode !== 'diff' && showCacheSimulator && (
+                <CacheSimulator
+                    simulation={cacheSimulation}
+                    isProcessing={isSimulatingCache}
+                    pricing={selectedModelInfo?.pricing ?? null}
+                    onSimulate={handleSimulateCache}
+                    markerHint={inputMode === 'text' ? (
+                        <>
+                            Mark where the cached prefix ends with <code>{CACHE_BREAKPOINT_MARKER}</code>.{' '}
+                            <button onClick={insertCacheBreakpoint} className="text-orange-400 hover:text-orange-300">
+                                Insert at cursor
+                            </button>
+                        </>
+                    ) : (
+                        <>Add <code>"cache_control": {'{ "type": "ephemeral" }'}</code> to the tool, system or message blocks that end a cached prefix.</>
+                    )}
+                />
+            )}
+
+            {/* Per-tool breakdown for the payload's tool definitions */}
+            {!hasFiles && inputMode === 'messages' && (
+                <ToolBreakdown
+                    analysis={toolAnalysis}
+                    isProcessing={isAnalyzingTools}
+                    modelInputPricePerMTok={selectedModelPrice}
+                />
+            )}
         </div>
     );
 };
 
 interface TokenMetricsProps {
     tokens: number;
+    // ± tokens when `tokens` is a local estimate
+    tokensMargin?: number;
     gpt4oTokens: number | null;
+    gpt4oError?: ProviderError;
     geminiTokens: number | null;
-    comparisonTokens: number | null;
-    comparisonModelName: string | null;
+    geminiError?: ProviderError;
+    // Counts from the picked comparison models, named and priced from `models`
+    comparisons?: ModelCountRow[];
+    // Diff mode: the "before" version's count, with `tokens` as "after"
+    beforeTokens?: number;
+    beforeMargin?: number;
     chars: number;
     isProcessing: boolean;
     fileName?: string;
-    fileType: 'image' | 'pdf' | 'text' | 'unknown';
+    fileType: FileTypeCategory;
+    files?: FileCountRow[];
     model: string;
     modelInputPricePerMTok: number | null;
-    comparisonInputPricePerMTok: number | null;
+    gpt4oInputPricePerMTok: number | null;
+    geminiInputPricePerMTok: number | null;
+    models?: ModelInfo[];
+    contextWindow?: number | null;
+    reservedOutputTokens?: number;
+    modelCounts?: ModelCountRow[];
+    selectedModelId?: string;
 }
 
-export const TokenMetrics = ({ tokens, gpt4oTokens, geminiTokens, comparisonTokens, comparisonModelName, chars, isProcessing, fileName, fileType, model, modelInputPricePerMTok, comparisonInputPricePerMTok }: TokenMetricsProps) => {
+export const TokenMetrics = ({ tokens, tokensMargin, gpt4oTokens, gpt4oError, geminiTokens, geminiError, comparisons = [], beforeTokens, beforeMargin, chars, isProcessing, fileName, fileType, files, model, modelInputPricePerMTok, gpt4oInputPricePerMTok, geminiInputPricePerMTok, models = [], contextWindow = null, reservedOutputTokens = 0, modelCounts, selectedModelId }: TokenMetricsProps) => {
     // Calculate percentage differences when tokens are available
     const calculatePercentageDiff = (compareTokens: number | null, baseTokens: number): string => {
         if (compareTokens === null || baseTokens === 0) return '';
@@ -461,24 +1396,33 @@ export const TokenMetrics = ({ tokens, gpt4oTokens, geminiTokens, comparisonToke
         ? calculatePercentageDiff(geminiTokens, tokens)
         : '';
 
-    // Comparison shows how many fewer (or more) tokens the other Claude tokenizer
-    // produced vs. the currently selected model.
-    const comparisonDiff = tokens > 0 && comparisonTokens !== null
-        ? calculatePercentageDiff(comparisonTokens, tokens)
+    // Share of the context window left for input once output is reserved
+    const inputBudget = contextWindow !== null ? Math.max(0, contextWindow - reservedOutputTokens) : null;
+    const contextUsage = inputBudget ? (tokens / inputBudget) * 100 : null;
+    const overflowTokens = inputBudget !== null ? tokens - inputBudget : 0;
+
+    // Diff mode: how far "after" moved from "before"
+    const tokenChange = beforeTokens !== undefined ? tokens - beforeTokens : null;
+    const changeDiff = beforeTokens !== undefined && beforeTokens > 0
+        ? calculatePercentageDiff(tokens, beforeTokens)
         : '';
+    const changeEstimated = tokensMargin !== undefined || beforeMargin !== undefined;
 
     return (
         <div className="flex flex-wrap gap-6 p-4 rounded-xl bg-neutral-800 border border-neutral-700">
             {/* Claude Tokens */}
             <div className="space-y-1">
-                <h2 className="text-xs font-medium text-neutral-400">Claude Tokens</h2>
+                <h2 className="text-xs font-medium text-neutral-400">{tokenChange !== null ? 'Claude Tokens (after)' : 'Claude Tokens'}</h2>
                 <p className="text-3xl font-light">
                     {isProcessing ? (
                         <span className="animate-pulse">...</span>
                     ) : (
-                        tokens.toLocaleString()
+                        formatTokens(tokens, tokensMargin)
                     )}
                 </p>
+                {!isProcessing && tokensMargin !== undefined && (
+                    <p className="text-xs text-amber-400">Local estimate, ±{tokensMargin.toLocaleString()} tokens</p>
+                )}
                 {!isProcessing && tokens > 0 && modelInputPricePerMTok !== null && (
                     <p className="text-xs text-neutral-500">
                         Est. input cost: {formatCost(tokens, modelInputPricePerMTok)}
@@ -487,39 +1431,80 @@ export const TokenMetrics = ({ tokens, gpt4oTokens, geminiTokens, comparisonToke
                 )}
             </div>
 
-            {/* Comparison Claude tokenizer (e.g. Opus 4.6 vs selected Opus 4.7) */}
-            {comparisonModelName && (
+            {/* Before → after change in diff mode */}
+            {tokenChange !== null && beforeTokens !== undefined && (
                 <div className="space-y-1">
-                    <h2 className="text-xs font-medium text-neutral-400">
-                        {comparisonModelName} Tokens
-                    </h2>
+                    <h2 className="text-xs font-medium text-neutral-400">Change</h2>
                     <div className="flex items-baseline gap-2">
                         <p className="text-3xl font-light">
                             {isProcessing ? (
                                 <span className="animate-pulse">...</span>
-                            ) : comparisonTokens !== null ? (
-                                comparisonTokens.toLocaleString()
                             ) : (
-                                "—"
+                                `${changeEstimated ? '≈' : ''}${formatTokenDelta(tokenChange)}`
                             )}
                         </p>
-                        {!isProcessing && comparisonTokens !== null && tokens > 0 && (
-                            <span className={`text-sm ${comparisonDiff.includes('−') ? 'text-green-400' : 'text-orange-400'}`}>
-                                {comparisonDiff}
+                        {!isProcessing && changeDiff && (
+                            <span className={`text-sm ${changeDiff.includes('−') ? 'text-green-400' : 'text-orange-400'}`}>
+                                {changeDiff}
                             </span>
                         )}
                     </div>
-                    {!isProcessing && comparisonTokens !== null && comparisonTokens > 0 && comparisonInputPricePerMTok !== null && (
+                    {!isProcessing && (
+                        <p className="text-xs text-neutral-500">from {formatTokens(beforeTokens, beforeMargin)} before</p>
+                    )}
+                    {!isProcessing && tokenChange !== 0 && modelInputPricePerMTok !== null && (
                         <p className="text-xs text-neutral-500">
-                            Est. input cost: {formatCost(comparisonTokens, comparisonInputPricePerMTok)}
-                            <span className="text-neutral-600"> @ ${comparisonInputPricePerMTok}/MTok</span>
+                            Est. cost change: {formatCostDelta(tokenChange, modelInputPricePerMTok)}
+                            <span className="text-neutral-600"> per request</span>
                         </p>
                     )}
                 </div>
             )}
 
-            {/* GPT-4o Tokens - only show for text inputs */}
-            {(fileType === 'text' || !fileName) && (
+            {/* Comparison models: how many fewer (or more) tokens each produced
+                vs. the selected model */}
+            {comparisons.map(({ model: comparisonId, tokens: comparisonTokens, margin: comparisonMargin, error: comparisonError }) => {
+                const comparisonInfo = models.find(m => m.id === comparisonId);
+                const comparisonPrice = comparisonInfo?.pricing.inputPerMTok ?? null;
+                const comparisonDiff = tokens > 0 && comparisonTokens !== null
+                    ? calculatePercentageDiff(comparisonTokens, tokens)
+                    : '';
+                return (
+                    <div key={comparisonId} className="space-y-1">
+                        <h2 className="text-xs font-medium text-neutral-400">
+                            {comparisonInfo?.name ?? comparisonId} Tokens
+                        </h2>
+                        <div className="flex items-baseline gap-2">
+                            <p className="text-3xl font-light" title={comparisonError}>
+                                {isProcessing ? (
+                                    <span className="animate-pulse">...</span>
+                                ) : comparisonTokens !== null ? (
+                                    formatTokens(comparisonTokens, comparisonMargin)
+                                ) : (
+                                    "—"
+                                )}
+                            </p>
+                            {!isProcessing && comparisonDiff && (
+                                <span className={`text-sm ${comparisonDiff.includes('−') ? 'text-green-400' : 'text-orange-400'}`}>
+                                    {comparisonDiff}
+                                </span>
+                            )}
+                        </div>
+                        {!isProcessing && comparisonTokens !== null && comparisonMargin !== undefined && (
+                            <p className="text-xs text-amber-400">Local estimate, ±{comparisonMargin.toLocaleString()} tokens</p>
+                        )}
+                        {!isProcessing && comparisonTokens !== null && comparisonTokens > 0 && comparisonPrice !== null && (
+                            <p className="text-xs text-neutral-500">
+                                Est. input cost: {formatCost(comparisonTokens, comparisonPrice)}
+                                <span className="text-neutral-600"> @ ${comparisonPrice}/MTok</span>
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+
+            {/* GPT-4o Tokens - only show for text inputs and codebases */}
+            {(fileType === 'text' || fileType === 'document' || fileType === 'archive' || !fileName) && (
                 <div className="space-y-1">
                     <h2 className="text-xs font-medium text-neutral-400">GPT-4o Tokens</h2>
                     <div className="flex items-baseline gap-2">
@@ -538,17 +1523,20 @@ export const TokenMetrics = ({ tokens, gpt4oTokens, geminiTokens, comparisonToke
                             </span>
                         )}
                     </div>
-                    {!isProcessing && gpt4oTokens !== null && gpt4oTokens > 0 && (
+                    {!isProcessing && gpt4oTokens === null && gpt4oError && (
+                        <p className="text-xs text-orange-400" title={gpt4oError.code}>{gpt4oError.message}</p>
+                    )}
+                    {!isProcessing && gpt4oTokens !== null && gpt4oTokens > 0 && gpt4oInputPricePerMTok !== null && (
                         <p className="text-xs text-neutral-500">
-                            Est. input cost: {formatCost(gpt4oTokens, GPT4O_INPUT_PRICE_PER_MTOK)}
-                            <span className="text-neutral-600"> @ ${GPT4O_INPUT_PRICE_PER_MTOK}/MTok</span>
+                            Est. input cost: {formatCost(gpt4oTokens, gpt4oInputPricePerMTok)}
+                            <span className="text-neutral-600"> @ ${gpt4oInputPricePerMTok}/MTok</span>
                         </p>
                     )}
                 </div>
             )}
 
-            {/* Gemini Tokens - only show for text inputs */}
-            {(fileType === 'text' || !fileName) && (
+            {/* Gemini Tokens - only show for text inputs and codebases */}
+            {(fileType === 'text' || fileType === 'document' || fileType === 'archive' || !fileName) && (
                 <div className="space-y-1">
                     <h2 className="text-xs font-medium text-neutral-400">Gemini Tokens</h2>
                     <div className="flex items-baseline gap-2">
@@ -567,15 +1555,47 @@ export const TokenMetrics = ({ tokens, gpt4oTokens, geminiTokens, comparisonToke
                             </span>
                         )}
                     </div>
-                    {!isProcessing && geminiTokens !== null && geminiTokens > 0 && (
+                    {!isProcessing && geminiTokens === null && geminiError && (
+                        <p className="text-xs text-orange-400" title={geminiError.code}>{geminiError.message}</p>
+                    )}
+                    {!isProcessing && geminiTokens !== null && geminiTokens > 0 && geminiInputPricePerMTok !== null && (
                         <p className="text-xs text-neutral-500">
-                            Est. input cost: {formatCost(geminiTokens, GEMINI_INPUT_PRICE_PER_MTOK)}
-                            <span className="text-neutral-600"> @ ${GEMINI_INPUT_PRICE_PER_MTOK}/MTok</span>
+                            Est. input cost: {formatCost(geminiTokens, geminiInputPricePerMTok)}
+                            <span className="text-neutral-600"> @ ${geminiInputPricePerMTok}/MTok</span>
                         </p>
                     )}
                 </div>
             )}
             
+            {/* Context window fit */}
+            {contextUsage !== null && inputBudget !== null && (
+                <div className="space-y-1">
+                    <h2 className="text-xs font-medium text-neutral-400">Context Window</h2>
+                    <p className={`text-3xl font-light ${overflowTokens > 0 ? 'text-red-400' : ''}`}>
+                        {isProcessing ? (
+                            <span className="animate-pulse">...</span>
+                        ) : (
+                            `${contextUsage.toFixed(1)}%`
+                        )}
+                    </p>
+                    <div className="h-1.5 w-32 rounded bg-neutral-700 overflow-hidden">
+                        <div
+                            className={`h-full ${overflowTokens > 0 ? 'bg-red-400' : 'bg-orange-400'}`}
+                            style={{ width: `${Math.min(100, contextUsage)}%` }}
+                        />
+                    </div>
+                    {!isProcessing && overflowTokens > 0 ? (
+                        <p className="text-xs text-red-400">
+                            Overflows by {overflowTokens.toLocaleString()} tokens
+                        </p>
+                    ) : (
+                        <p className="text-xs text-neutral-500">
+                            of {inputBudget.toLocaleString()} after {reservedOutputTokens.toLocaleString()} output
+                        </p>
+                    )}
+                </div>
+            )}
+
             {/* Character Count */}
             <div className="space-y-1">
                 <h2 className="text-xs font-medium text-neutral-400">Characters</h2>
@@ -598,11 +1618,134 @@ export const TokenMetrics = ({ tokens, gpt4oTokens, geminiTokens, comparisonToke
             {fileName && (
                 <div className="space-y-1 flex-1">
                     <h2 className="text-xs font-medium text-neutral-400">
-                        {fileType === 'image' ? 'Image' : fileType === 'pdf' ? 'PDF' : 'File'}
+                        {fileType === 'image' ? 'Image' : fileType === 'pdf' ? 'PDF' : fileType === 'document' ? 'Document' : fileType === 'archive' ? 'Archive' : 'File'}
                     </h2>
                     <p className="text-sm truncate">{fileName}</p>
                 </div>
             )}
+
+            {/* Per-file breakdown for multi-file uploads */}
+            {files && files.length > 0 && !isProcessing && (
+                <FileBreakdown rows={files} inputPricePerMTok={modelInputPricePerMTok} />
+            )}
+
+            {/* Every Claude model side by side */}
+            {modelCounts && modelCounts.length > 0 && !isProcessing && (
+                <ModelMatrix
+                    rows={modelCounts}
+                    models={models}
+                    initialBaseline={selectedModelId ?? modelCounts[0].model}
+                    calculatePercentageDiff={calculatePercentageDiff}
+                />
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
+
+interface ModelMatrixProps {
+    rows: ModelCountRow[];
+    models: ModelInfo[];
+    initialBaseline: string;
+    calculatePercentageDiff: (compareTokens: number | null, baseTokens: number) => string;
+}
+
+const ModelMatrix = ({ rows, models, initialBaseline, calculatePercentageDiff }: ModelMatrixProps) => {
+    const [baseline, setBaseline] = useState(initialBaseline);
+    const baselineTokens = rows.find(row => row.model === baseline)?.tokens ?? null;
+
+    return (
+        <div className="w-full space-y-2">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xs font-medium text-neutral-400">All Claude Models</h2>
+                <label className="flex items-center gap-2 text-xs text-neutral-400">
+                    Baseline
+                    <select
+                        value={baseline}
+                        onChange={(e) => setBaseline(e.target.value)}
+                        className="rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 text-xs text-white"
+                    >
+                        {rows.map(row => (
+                            <option key={row.model} value={row.model}>
+                                {models.find(m => m.id === row.model)?.name ?? row.model}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-neutral-500">
+                        <th className="font-normal py-1">Model</th>
+                        <th className="font-normal py-1 text-right">Tokens</th>
+                        <th className="font-normal py-1 text-right">vs. baseline</th>
+                        <th className="font-normal py-1 text-right">Est. input cost</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => {
+                        const info = models.find(m => m.id === row.model);
+                        const diff = row.tokens !== null && baselineTokens
+                            ? calculatePercentageDiff(row.tokens, baselineTokens).trim()
+                            : '';
+                        return (
+                            <tr key={row.model} className={`border-t border-neutral-700 ${row.model === baseline ? 'text-orange-400' : ''}`}>
+                                <td className="py-1">{info?.name ?? row.model}</td>
+                                <td className="py-1 text-right tabular-nums">
+                                    {row.tokens !== null
+                                        ? <span title={row.margin !== undefined ? `Local estimate, ±${row.margin.toLocaleString()} tokens` : undefined}>{formatTokens(row.tokens, row.margin)}</span>
+                                        : <span title={row.error} className="text-neutral-500">—</span>}
+                                </td>
+                                <td className={`py-1 text-right tabular-nums ${diff.includes('−') ? 'text-green-400' : row.model === baseline ? '' : 'text-orange-400'}`}>
+                                    {row.model === baseline ? 'baseline' : diff}
+                                </td>
+                                <td className="py-1 text-right tabular-nums text-neutral-400">
+                                    {row.tokens !== null && info ? formatCost(row.tokens, info.pricing.inputPerMTok) : '—'}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+interface FileBreakdownProps {
+    rows: FileCountRow[];
+    inputPricePerMTok: number | null;
+}
+
+// Each uploaded file counted on its own. These add up to slightly more than
+// the combined count, which shares one user turn.
+const FileBreakdown = ({ rows, inputPricePerMTok }: FileBreakdownProps) => (
+    <div className="w-full space-y-2">
+        <h2 className="text-xs font-medium text-neutral-400">Per File</h2>
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                    <th className="font-normal py-1">File</th>
+                    <th className="font-normal py-1">Type</th>
+                    <th className="font-normal py-1 text-right">Tokens</th>
+                    <th className="font-normal py-1 text-right">Est. input cost</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map((row, index) => (
+                    <tr key={`${row.name}-${index}`} className="border-t border-neutral-700">
+                        <td className="py-1 truncate max-w-[240px]">{row.name}</td>
+                        <td className="py-1 text-neutral-400">
+                            {row.extraction ? EXTRACTION_LABELS[row.extraction] : row.fileType === 'pdf' ? 'PDF' : row.fileType === 'image' ? 'Image' : 'Text'}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                            {row.tokens !== null
+                                ? <span title={row.margin !== undefined ? `Local estimate, ±${row.margin.toLocaleString()} tokens` : undefined}>{formatTokens(row.tokens, row.margin)}</span>
+                                : <span title={row.error} className="text-neutral-500">—</span>}
+                        </td>
+                        <td className="py-1 text-right tabular-nums text-neutral-400">
+                            {row.tokens !== null && inputPricePerMTok !== null ? formatCost(row.tokens, inputPricePerMTok) : '—'}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ChevronDown } from "lucide-react";
+import { formatCost } from "@/lib/utils";
+
+// Mirrors the response of POST /api/tools
+export interface ToolAnalysisResult {
+    model: string;
+    totalTokens: number;
+    baselineTokens: number;
+    toolOverheadTokens: number;
+    tools: {
+        name: string;
+        tokens: number;
+        fields: { path: string; approxTokens: number }[];
+    }[];
+    estimated?: true;
+    margin?: number;
+}
+
+interface ToolBreakdownProps {
+    analysis: ToolAnalysisResult | null;
+    isProcessing: boolean;
+    modelInputPricePerMTok: number | null;
+}
+
+// How many schema fields to list under an expanded tool
+const TOP_FIELDS = 5;
+
+export const ToolBreakdown = ({ analysis, isProcessing, modelInputPricePerMTok }: ToolBreakdownProps) => {
+    const [expandedTool, setExpandedTool] = useState<string | null>(null);
+
+    if (isProcessing) {
+        return (
+            <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 text-sm text-neutral-400">
+                <span className="animate-pulse">Counting each tool...</span>
+            </div>
+        );
+    }
+    if (!analysis) return null;
+
+    const toolsTokens = analysis.totalTokens - analysis.baselineTokens;
+    const maxToolTokens = Math.max(1, ...analysis.tools.map(tool => tool.tokens));
+    const approx = analysis.estimated ? '≈' : '';
+
+    return (
+        <div className="p-4 rounded-xl bg-neutral-800 border border-neutral-700 space-y-4">
+            <div className="flex flex-wrap gap-6">
+                <div className="space-y-1">
+                    <h2 className="text-xs font-medium text-neutral-400">All Tools</h2>
+                    <p className="text-3xl font-light">{approx}{toolsTokens.toLocaleString()}</p>
+                    {modelInputPricePerMTok !== null && toolsTokens > 0 && (
+                        <p className="text-xs text-neutral-500">
+                            Est. input cost per request: {formatCost(toolsTokens, modelInputPricePerMTok)}
+                        </p>
+                    )}
+                </div>
+                <div className="space-y-1">
+                    <h2 className="text-xs font-medium text-neutral-400">Tool-use Overhead</h2>
+                    <p className="text-3xl font-light">{approx}{analysis.toolOverheadTokens.toLocaleString()}</p>
+                    <p className="text-xs text-neutral-500">Paid once whenever any tool is present</p>
+                </div>
+                <div className="space-y-1">
+                    <h2 className="text-xs font-medium text-neutral-400">Tools</h2>
+                    <p className="text-3xl font-light">{analysis.tools.length}</p>
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                {analysis.tools.map((tool) => (
+                    <div key={tool.name} className="text-sm">
+                        <div
+                            className="flex items-center gap-3 cursor-pointer rounded-md px-2 py-1 hover:bg-neutral-700"
+                            onClick={() => setExpandedTool(expandedTool === tool.name ? null : tool.name)}
+                        >
+                            <ChevronDown size={14} className={`shrink-0 transition-transform ${expandedTool === tool.name ? 'rotate-180' : ''}`} />
+                            <span className="font-mono truncate w-48">{tool.name}</span>
+                            <div className="flex-1 h-2 rounded bg-neutral-700 overflow-hidden">
+                                <div
+                                    className="h-full bg-orange-400"
+                                    style={{ width: `${(tool.tokens / maxToolTokens) * 100}%` }}
+                                />
+                            </div>
+                            <span className="w-16 text-right tabular-nums">{approx}{tool.tokens.toLocaleString()}</span>
+                            {modelInputPricePerMTok !== null && (
+                                <span className="w-20 text-right text-xs text-neutral-500 tabular-nums">
+                                    {formatCost(tool.tokens, modelInputPricePerMTok)}
+                                </span>
+                            )}
+                        </div>
+                        {expandedTool === tool.name && (
+                            <div className="ml-9 mt-1 mb-2 space-y-0.5 text-xs text-neutral-400">
+                                {tool.fields.length === 0 && <p>No description or schema properties.</p>}
+                                {tool.fields.slice(0, TOP_FIELDS).map((field) => (
+                                    <div key={field.path} className="flex justify-between gap-4">
+                                        <span className="font-mono truncate">{field.path}</span>
+                                        <span className="tabular-nums">~{field.approxTokens.toLocaleString()}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-neutral-500">
+                Per-tool figures are the tokens saved by removing that tool. Field figures are approximate.
+            </p>
+            {analysis.estimated && (
+                <p className="text-xs text-amber-300">
+                    Counts are local estimates, each within ±{(analysis.margin ?? 0).toLocaleString()} tokens; the token counting API wasn't available.
+                </p>
+            )}
+        </div>
+    );
+};
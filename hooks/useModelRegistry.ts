@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import type { ModelRegistry } from '@/lib/models';
+
+// Load the model registry from GET /api/models. Returns null until it arrives.
+export const useModelRegistry = () => {
+    const [registry, setRegistry] = useState<ModelRegistry | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch('/api/models')
+            .then(response => {
+                if (!response.ok) {
+                    throw new Error(`API request failed with status ${response.status}`);
+                }
+                return response.json();
+            })
+            .then((data: ModelRegistry) => {
+                if (!cancelled) setRegistry(data);
+            })
+            .catch(err => console.error("Model registry error:", err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return registry;
+};
@@ -0,0 +1,141 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { PayloadError } from '@/lib/tokenCounting';
+import { ExtractionError } from '@/lib/extraction';
+import { PdfError } from '@/lib/pdfPages';
+import { ArchiveError } from '@/lib/codebase';
+import { ImageFormatError } from '@/lib/imageConversion';
+import { UploadTypeError } from '@/lib/uploads';
+
+// Stable identifiers for every way POST /api can fail. Clients switch on
+// these rather than on the message, which is free to change.
+export type ApiErrorCode =
+    | 'invalid_request'
+    | 'invalid_json'
+    | 'invalid_model'
+    | 'unauthorized'
+    | 'unsupported_file_type'
+    | 'payload_too_large'
+    | 'rate_limited'
+    | 'upstream_auth'
+    | 'provider_unavailable'
+    | 'internal_error';
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+    invalid_request: 400,
+    invalid_json: 400,
+    invalid_model: 400,
+    unauthorized: 401,
+    unsupported_file_type: 415,
+    payload_too_large: 413,
+    rate_limited: 429,
+    upstream_auth: 502,
+    provider_unavailable: 503,
+    internal_error: 500,
+};
+
+// An error with a code and message that are safe to show the client
+export class ApiError extends Error {
+    constructor(
+        public code: ApiErrorCode,
+        message: string,
+        // Seconds until a rate-limited request is worth retrying
+        public retryAfter?: number
+    ) {
+        super(message);
+    }
+
+    get status() {
+        return STATUS_BY_CODE[this.code];
+    }
+}
+
+// Shape of every error body the route returns
+export interface ApiErrorBody {
+    error: string;
+    code: ApiErrorCode;
+    retryAfter?: number;
+}
+
+// How a single comparison provider failed, reported next to its (null) count
+export interface ProviderError {
+    code: ApiErrorCode;
+    message: string;
+}
+
+const retryAfterSeconds = (value: string | null | undefined) => {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : undefined;
+};
+
+// Map an upstream HTTP status onto our codes; null for statuses that mean
+// the request itself was bad
+function upstreamCode(status: number | undefined): ApiErrorCode | null {
+    if (status === undefined || status >= 500) return 'provider_unavailable';
+    if (status === 429) return 'rate_limited';
+    if (status === 401 || status === 403) return 'upstream_auth';
+    if (status === 413) return 'payload_too_large';
+    return null;
+}
+
+// Turn anything thrown while handling a request into an ApiError. Errors we
+// don't recognise become a generic internal error so nothing leaks.
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof SyntaxError) {
+        return new ApiError('invalid_json', 'Request body is not valid JSON');
+    }
+    if (error instanceof ImageFormatError || error instanceof UploadTypeError) {
+        return new ApiError('unsupported_file_type', error.message);
+    }
+    if (error instanceof PayloadError || error instanceof ExtractionError || error instanceof PdfError || error instanceof ArchiveError) {
+        return new ApiError('invalid_request', error.message);
+    }
+
+    if (error instanceof Anthropic.APIError) {
+        switch (upstreamCode(error.status)) {
+            case 'rate_limited':
+                return new ApiError('rate_limited', 'Anthropic rate limit reached', retryAfterSeconds(error.headers?.['retry-after']));
+            case 'upstream_auth':
+                return new ApiError('upstream_auth', 'Anthropic rejected the server\'s API key');
+            case 'payload_too_large':
+                return new ApiError('payload_too_large', 'Request is too large for the token counting API');
+            case 'provider_unavailable':
+                return new ApiError('provider_unavailable', 'The Anthropic API is unavailable');
+        }
+        if (error.status === 404) {
+            return new ApiError('invalid_model', 'Anthropic doesn\'t recognise this model');
+        }
+        if (error.status === 400) {
+            return new ApiError('invalid_request', error.message);
+        }
+    }
+
+    return new ApiError('internal_error', 'Failed to count tokens');
+}
+
+const PROVIDER_MESSAGES: Partial<Record<ApiErrorCode, (provider: string) => string>> = {
+    rate_limited: provider => `${provider} rate limit reached`,
+    upstream_auth: provider => `${provider} rejected the server's API key`,
+    payload_too_large: provider => `Input is too large for ${provider}`,
+    provider_unavailable: provider => `${provider} is unavailable`,
+};
+
+// Describe a comparison provider's failure. HTTP failures are recognised by
+// the "[429 Too Many Requests]" the Gemini SDK puts in its messages; anything
+// else gets `fallback`.
+export function providerError(provider: string, error: unknown, fallback: ApiErrorCode = 'internal_error'): ProviderError {
+    const status = error instanceof Error ? Number(error.message.match(/\[(\d{3}) /)?.[1]) : NaN;
+    const code = Number.isNaN(status) ? fallback : upstreamCode(status) ?? 'invalid_request';
+    return { code, message: PROVIDER_MESSAGES[code]?.(provider) ?? `${provider} couldn't count this input` };
+}
+
+export function errorResponse(error: ApiError) {
+    const body: ApiErrorBody = { error: error.message, code: error.code };
+    const headers: Record<string, string> = {};
+    if (error.retryAfter !== undefined) {
+        body.retryAfter = error.retryAfter;
+        headers['Retry-After'] = String(error.retryAfter);
+    }
+    return Response.json(body, { status: error.status, headers });
+}
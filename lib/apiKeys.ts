@@ -0,0 +1,65 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import { ApiError } from '@/lib/apiErrors';
+
+// Team API keys for /api/v1, read from a local JSON file (API_KEYS_FILE,
+// default api-keys.json). Only SHA-256 digests of the keys are stored:
+//
+//   { "keys": [{ "name": "search-indexer", "sha256": "<hex digest of the key>" }] }
+//
+// Generate a digest with `printf %s "$KEY" | sha256sum`. The file is re-read
+// whenever it changes, so keys can be added or revoked without a restart.
+
+export interface ApiKey {
+    name: string;
+    sha256: string;
+}
+
+const keysFile = process.env.API_KEYS_FILE || 'api-keys.json';
+
+let loaded: { mtimeMs: number; keys: ApiKey[] } | null = null;
+
+async function loadKeys(): Promise<ApiKey[]> {
+    let mtimeMs: number;
+    try {
+        mtimeMs = (await fs.stat(keysFile)).mtimeMs;
+    } catch {
+        // No file means no keys, so every request is turned away
+        return [];
+    }
+    if (loaded?.mtimeMs === mtimeMs) return loaded.keys;
+
+    try {
+        const contents = JSON.parse(await fs.readFile(keysFile, 'utf8')) as { keys?: unknown };
+        const keys = (Array.isArray(contents.keys) ? contents.keys : []).filter((key): key is ApiKey =>
+            !!key && typeof key.name === 'string' && typeof key.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(key.sha256)
+        );
+        loaded = { mtimeMs, keys };
+    } catch (error) {
+        console.error('API keys file error:', error);
+        loaded = { mtimeMs, keys: [] };
+    }
+    return loaded.keys;
+}
+
+// The key a request presents, from `x-api-key` or `Authorization: Bearer`
+function presentedKey(req: Request): string | null {
+    return req.headers.get('x-api-key') ||
+        req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ||
+        null;
+}
+
+// Check a request's API key against the keys file, returning the key's
+// entry. Throws an `unauthorized` ApiError for a missing or unknown key.
+export async function authenticate(req: Request): Promise<ApiKey> {
+    const key = presentedKey(req);
+    if (!key) {
+        throw new ApiError('unauthorized', 'Send an API key in the x-api-key header');
+    }
+    const digest = createHash('sha256').update(key).digest();
+    const match = (await loadKeys()).find(entry => timingSafeEqual(digest, Buffer.from(entry.sha256, 'hex')));
+    if (!match) {
+        throw new ApiError('unauthorized', 'Unknown API key');
+    }
+    return match;
+}
@@ -0,0 +1,125 @@
+import {
+    CountPayload,
+    CachedCount,
+    parseMessagesPayload,
+    textPayload,
+    countClaudeTokens,
+    countAcrossModels,
+    getGPT4oTokenCount,
+    getGeminiTokenCount,
+} from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { DEFAULT_MODEL, unknownModels } from '@/lib/models';
+import { ApiError, ProviderError } from '@/lib/apiErrors';
+import { CountJsonBody } from '@/lib/requestValidation';
+
+// Request and response contract of POST /api/v1/count. Unlike POST /api,
+// whose response follows the web UI, these shapes only ever gain optional
+// fields; anything else means a /api/v2. lib/openapi.ts documents them.
+
+// Body of POST /api/v1/count: plain `text`, or a Messages API payload
+// (`messages`, plus optional `system`, `tools`, `tool_choice`, `thinking`)
+export interface CountRequestV1 extends CountJsonBody {
+    // Also count with GPT-4o and Gemini; plain text only, default true
+    comparisons?: boolean;
+}
+
+export interface ModelCountV1 {
+    model: string;
+    input_tokens: number | null;
+    estimated: boolean;
+    margin: number | null;
+    cached: boolean;
+    error: string | null;
+}
+
+export interface ComparisonCountV1 {
+    tokens: number | null;
+    cached: boolean;
+    error: ProviderError | null;
+}
+
+export interface CountResponseV1 {
+    model: string;
+    // What the Anthropic API reports for the request as sent
+    input_tokens: number;
+    // Tokens the API adds around plain text to make it a user turn; 0 for
+    // Messages payloads, which are counted as given
+    framing_tokens: number;
+    // input_tokens less framing_tokens: what the text itself costs
+    content_tokens: number;
+    // Whether input_tokens is a local estimate (no API key, or the API was
+    // unavailable), good to within ± `margin` tokens
+    estimated: boolean;
+    margin: number | null;
+    // Whether input_tokens came from the result cache
+    cached: boolean;
+    // Length of plain text input; null for Messages payloads
+    characters: number | null;
+    // One row per entry in the request's `models`
+    models: ModelCountV1[];
+    // Other providers' counts of plain text; null when not requested
+    comparisons: { gpt4o: ComparisonCountV1; gemini: ComparisonCountV1 } | null;
+}
+
+const comparisonCount = (count: CachedCount): ComparisonCountV1 => ({
+    tokens: count.tokens,
+    cached: count.cached,
+    error: count.error ?? null,
+});
+
+const estimateOf = (count: { estimated?: true; margin?: number }) => ({
+    estimated: count.estimated === true,
+    margin: count.margin ?? null,
+});
+
+// Count a v1 request. Throws an ApiError (or an error toApiError maps) when
+// the request is invalid or counting fails.
+export async function countV1(body: CountRequestV1): Promise<CountResponseV1> {
+    if (body.comparisons !== undefined && typeof body.comparisons !== 'boolean') {
+        throw new ApiError('invalid_request', '`comparisons` must be a boolean');
+    }
+    const payload = parseMessagesPayload(body);
+    if (!payload && body.text === undefined) {
+        throw new ApiError('invalid_request', 'Send either `text` or `messages`');
+    }
+
+    const model = body.model || DEFAULT_MODEL;
+    const models = body.models ?? [];
+    const unknown = unknownModels([model, ...models]);
+    if (unknown.length > 0) {
+        throw new ApiError('invalid_model', `Unknown model: ${unknown.join(', ')}`);
+    }
+
+    const text = payload ? null : body.text ?? '';
+    const countPayload: CountPayload = payload ?? textPayload(text ?? '');
+    const compareText = body.comparisons === false ? null : text;
+
+    const [count, modelCounts, gpt4o, gemini] = await Promise.all([
+        countClaudeTokens(model, countPayload),
+        models.length > 0 ? countAcrossModels(models, countPayload) : Promise.resolve([]),
+        compareText !== null ? getGPT4oTokenCount(compareText) : Promise.resolve(null),
+        compareText !== null ? getGeminiTokenCount(compareText) : Promise.resolve(null),
+    ]);
+
+    const framing = text !== null ? USER_TURN_FRAMING_TOKENS : 0;
+    return {
+        model,
+        input_tokens: count.input_tokens,
+        framing_tokens: framing,
+        content_tokens: Math.max(0, count.input_tokens - framing),
+        ...estimateOf(count),
+        cached: count.cached,
+        characters: text !== null ? text.length : null,
+        models: modelCounts.map(row => ({
+            model: row.model,
+            input_tokens: row.input_tokens,
+            ...estimateOf(row),
+            cached: row.cached ?? false,
+            error: row.error ?? null,
+        })),
+        comparisons: gpt4o && gemini
+            ? { gpt4o: comparisonCount(gpt4o), gemini: comparisonCount(gemini) }
+            : null,
+    };
+}
@@ -0,0 +1,123 @@
+import {
+    TOKEN_COUNTING_BETAS,
+    PDF_BETAS,
+    CountPayload,
+    ImageMediaType,
+    textPayload,
+    pdfPayload,
+    imagePayload,
+    countClaudeTokens,
+    estimateFields,
+} from '@/lib/tokenCounting';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { DEFAULT_MODEL, getModel } from '@/lib/models';
+
+// Upper bound on items per batch request
+export const MAX_BATCH_ITEMS = 2000;
+
+// How many items a batch counts at once
+const BATCH_CONCURRENCY = 5;
+
+const IMAGE_MEDIA_TYPES: ImageMediaType[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export type BatchItem =
+    | { id?: string; model?: string; type: 'text'; text: string }
+    | { id?: string; model?: string; type: 'pdf'; data: string }
+    | { id?: string; model?: string; type: 'image'; data: string; media_type: ImageMediaType };
+
+export interface BatchItemResult {
+    index: number;
+    id: string | null;
+    model: string;
+    input_tokens: number | null;
+    cached?: boolean;
+    estimated?: true;
+    margin?: number;
+    error?: string;
+}
+
+export interface BatchTotals {
+    items: number;
+    succeeded: number;
+    failed: number;
+    input_tokens: number;
+    byModel: Record<string, number>;
+}
+
+// Thrown for a single malformed item; reported on that item only
+class BatchItemError extends Error {}
+
+// Turn one batch item into the payload and betas to count it with
+function buildItemPayload(item: unknown): { payload: CountPayload; betas: string[] } {
+    if (!item || typeof item !== 'object') {
+        throw new BatchItemError('Item must be an object');
+    }
+    const candidate = item as Record<string, unknown>;
+
+    switch (candidate.type) {
+        case 'text':
+            if (typeof candidate.text !== 'string') {
+                throw new BatchItemError('Text items need a `text` string');
+            }
+            return { payload: textPayload(candidate.text), betas: TOKEN_COUNTING_BETAS };
+        case 'pdf':
+            if (typeof candidate.data !== 'string' || !candidate.data) {
+                throw new BatchItemError('PDF items need base64 `data`');
+            }
+            return { payload: pdfPayload(candidate.data), betas: PDF_BETAS };
+        case 'image':
+            if (typeof candidate.data !== 'string' || !candidate.data) {
+                throw new BatchItemError('Image items need base64 `data`');
+            }
+            if (!IMAGE_MEDIA_TYPES.includes(candidate.media_type as ImageMediaType)) {
+                throw new BatchItemError(`Image items need a \`media_type\` of ${IMAGE_MEDIA_TYPES.join(', ')}`);
+            }
+            return { payload: imagePayload(candidate.data, candidate.media_type as ImageMediaType), betas: TOKEN_COUNTING_BETAS };
+        default:
+            throw new BatchItemError('Item `type` must be "text", "pdf" or "image"');
+    }
+}
+
+// Count every item, each against its own model. Failures (bad input or an
+// upstream error that survives retries) are recorded on the item and don't
+// stop the rest of the batch.
+export async function countBatch(items: unknown[], defaultModel: string = DEFAULT_MODEL) {
+    const results = await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item, index): Promise<BatchItemResult> => {
+        const fields = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        const id = typeof fields.id === 'string' ? fields.id : null;
+        const model = typeof fields.model === 'string' && fields.model ? fields.model : defaultModel;
+
+        try {
+            if (!getModel(model)) {
+                throw new BatchItemError(`Unknown model: ${model}`);
+            }
+            const { payload, betas } = buildItemPayload(item);
+            const count = await countClaudeTokens(model, payload, betas);
+            return { index, id, model, input_tokens: count.input_tokens, cached: count.cached, ...estimateFields(count) };
+        } catch (error) {
+            if (!(error instanceof BatchItemError)) {
+                console.error(`Batch item ${index} token counting error:`, error);
+            }
+            return {
+                index,
+                id,
+                model,
+                input_tokens: null,
+                error: error instanceof Error ? error.message : 'Failed to count tokens'
+            };
+        }
+    });
+
+    const totals: BatchTotals = { items: results.length, succeeded: 0, failed: 0, input_tokens: 0, byModel: {} };
+    for (const result of results) {
+        if (result.input_tokens === null) {
+            totals.failed++;
+            continue;
+        }
+        totals.succeeded++;
+        totals.input_tokens += result.input_tokens;
+        totals.byModel[result.model] = (totals.byModel[result.model] ?? 0) + result.input_tokens;
+    }
+
+    return { results, totals };
+}
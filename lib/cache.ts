@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+
+// Where a cached count lives. Implement this to back the cache with
+// something other than process memory (Redis, SQLite, ...) and install it
+// with `setCacheStore`.
+export interface CacheStore {
+    get(key: string): Promise<number | undefined>;
+    set(key: string, value: number, ttlMs: number): Promise<void>;
+}
+
+interface CacheEntry {
+    value: number;
+    expiresAt: number;
+}
+
+// Default store: a per-process LRU with a fixed number of entries
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number) {}
+
+    async get(key: string) {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        // Re-insert so the Map's insertion order tracks recency
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: number, ttlMs: number) {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+// Persists entries to a JSON file so they survive restarts. Meant for a
+// single server process; concurrent writers would clobber each other.
+export class FileCacheStore implements CacheStore {
+    private entries: Promise<Record<string, CacheEntry>> | null = null;
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {}
+
+    private load() {
+        if (!this.entries) {
+            this.entries = fs.readFile(this.filePath, 'utf8')
+                .then(contents => JSON.parse(contents) as Record<string, CacheEntry>)
+                .catch(() => ({}));
+        }
+        return this.entries;
+    }
+
+    async get(key: string) {
+        const entries = await this.load();
+        const entry = entries[key];
+        if (!entry || entry.expiresAt <= Date.now()) return undefined;
+        return entry.value;
+    }
+
+    async set(key: string, value: number, ttlMs: number) {
+        const entries = await this.load();
+        const now = Date.now();
+        entries[key] = { value, expiresAt: now + ttlMs };
+        for (const [entryKey, entry] of Object.entries(entries)) {
+            if (entry.expiresAt <= now) delete entries[entryKey];
+        }
+        // Chain writes so they land in order
+        this.pendingWrite = this.pendingWrite
+            .then(() => fs.writeFile(this.filePath, JSON.stringify(entries)))
+            .catch(error => console.error('Token cache write error:', error));
+        await this.pendingWrite;
+    }
+}
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_ENTRIES = 5000;
+
+const ttlMs = (Number(process.env.TOKEN_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS) * 1000;
+
+// Pick a store from the environment:
+//   TOKEN_CACHE=memory (default) | file | off
+//   TOKEN_CACHE_FILE=path for the file store
+//   TOKEN_CACHE_MAX_ENTRIES, TOKEN_CACHE_TTL_SECONDS
+function createDefaultStore(): CacheStore | null {
+    switch (process.env.TOKEN_CACHE ?? 'memory') {
+        case 'off':
+            return null;
+        case 'file':
+            return new FileCacheStore(process.env.TOKEN_CACHE_FILE || '.token-cache.json');
+        default:
+            return new MemoryCacheStore(Number(process.env.TOKEN_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES);
+    }
+}
+
+let store: CacheStore | null = createDefaultStore();
+
+// Swap in a different store, or pass null to disable caching
+export function setCacheStore(next: CacheStore | null) {
+    store = next;
+}
+
+export interface CacheKeyParts {
+    provider: 'anthropic' | 'openai' | 'google';
+    model: string;
+    contentType: string;
+    content: string;
+}
+
+export function cacheKey({ provider, model, contentType, content }: CacheKeyParts) {
+    return createHash('sha256')
+        .update(JSON.stringify([provider, model, contentType, content]))
+        .digest('hex');
+}
+
+// Look a count up in the cache, computing and storing it on a miss. Null
+// results (a failed count) are passed through without being cached.
+export async function withCache(
+    parts: CacheKeyParts,
+    compute: () => Promise<number | null>
+): Promise<{ value: number | null; cached: boolean }> {
+    if (!store) return { value: await compute(), cached: false };
+
+    const key = cacheKey(parts);
+    try {
+        const hit = await store.get(key);
+        if (hit !== undefined) return { value: hit, cached: true };
+    } catch (error) {
+        console.error('Token cache read error:', error);
+    }
+
+    const value = await compute();
+    if (value !== null) {
+        try {
+            await store.set(key, value, ttlMs);
+        } catch (error) {
+            console.error('Token cache write error:', error);
+        }
+    }
+    return { value, cached: false };
+}
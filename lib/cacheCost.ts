@@ -0,0 +1,74 @@
+import type { ModelPricing } from '@/lib/models';
+
+// Typed into plain text to mark where a cache_control breakpoint would go
+export const CACHE_BREAKPOINT_MARKER = '[[cache]]';
+
+// The API accepts at most this many cache_control blocks per request
+export const MAX_CACHE_BREAKPOINTS = 4;
+
+export interface CacheCostProjection {
+    calls: number;
+    hits: number;
+    misses: number;
+    cacheWriteCost: number;
+    cacheReadCost: number;
+    freshInputCost: number;
+    totalCost: number;
+    // What the same calls cost with no caching at all
+    baselineCost: number;
+    savings: number;
+    // False when the prefix is too short to be cached, in which case the
+    // projection equals the baseline
+    cacheable: boolean;
+}
+
+// Project input cost over `calls` requests that share a `prefixTokens`
+// cached prefix followed by `suffixTokens` of fresh input. Each miss writes
+// the prefix to the cache and each hit reads it back.
+export function projectCacheCost(
+    prefixTokens: number,
+    suffixTokens: number,
+    pricing: ModelPricing,
+    calls: number,
+    hitRate: number,
+    minCacheableTokens: number
+): CacheCostProjection {
+    const perToken = (pricePerMTok: number) => pricePerMTok / 1_000_000;
+    const baselineCost = calls * (prefixTokens + suffixTokens) * perToken(pricing.inputPerMTok);
+    const cacheable = prefixTokens >= minCacheableTokens;
+
+    if (!cacheable) {
+        return {
+            calls,
+            hits: 0,
+            misses: calls,
+            cacheWriteCost: 0,
+            cacheReadCost: 0,
+            freshInputCost: baselineCost,
+            totalCost: baselineCost,
+            baselineCost,
+            savings: 0,
+            cacheable,
+        };
+    }
+
+    const hits = Math.round(calls * Math.min(1, Math.max(0, hitRate)));
+    const misses = calls - hits;
+    const cacheWriteCost = misses * prefixTokens * perToken(pricing.cacheWritePerMTok);
+    const cacheReadCost = hits * prefixTokens * perToken(pricing.cacheReadPerMTok);
+    const freshInputCost = calls * suffixTokens * perToken(pricing.inputPerMTok);
+    const totalCost = cacheWriteCost + cacheReadCost + freshInputCost;
+
+    return {
+        calls,
+        hits,
+        misses,
+        cacheWriteCost,
+        cacheReadCost,
+        freshInputCost,
+        totalCost,
+        baselineCost,
+        savings: baselineCost - totalCost,
+        cacheable,
+    };
+}
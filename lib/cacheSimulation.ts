@@ -0,0 +1,154 @@
+import { CountPayload, PayloadError, countClaudeTokens, textPayload, combinedEstimateFields } from '@/lib/tokenCounting';
+import { CACHE_BREAKPOINT_MARKER, MAX_CACHE_BREAKPOINTS } from '@/lib/cacheCost';
+import { getModel } from '@/lib/models';
+
+// Stand-in final turn for prefixes that end inside `tools` or `system`,
+// which can't be counted without at least one message
+const PLACEHOLDER_MESSAGES: CountPayload['messages'] = [{ role: 'user', content: '.' }];
+
+export interface CacheBreakpoint {
+    // e.g. "marker 1", "tools[2]", "system[0]", "messages[3].content[1]"
+    location: string;
+    // Tokens up to and including the breakpoint
+    prefixTokens: number;
+    belowMinimum: boolean;
+}
+
+export interface CacheSimulation {
+    model: string;
+    totalTokens: number;
+    breakpoints: CacheBreakpoint[];
+    // The last breakpoint's prefix, which is what a repeat call reads back
+    cachedPrefixTokens: number;
+    uncachedSuffixTokens: number;
+    minCacheableTokens: number;
+    // True when a prefix had to be counted with a placeholder turn
+    approximate: boolean;
+    // Set when the counts are local estimates, each good to within ± `margin`
+    estimated?: true;
+    margin?: number;
+}
+
+interface PrefixPayload {
+    location: string;
+    payload: CountPayload;
+    placeholder: boolean;
+}
+
+const hasCacheControl = (block: unknown) =>
+    !!block && typeof block === 'object' && 'cache_control' in block && !!(block as { cache_control?: unknown }).cache_control;
+
+// Cut a payload at every block carrying `cache_control`, in the order the
+// API assembles a prompt: tools, then system, then messages.
+function payloadPrefixes(payload: CountPayload): PrefixPayload[] {
+    const prefixes: PrefixPayload[] = [];
+    const tools = payload.tools ?? [];
+    const system = Array.isArray(payload.system) ? payload.system : [];
+
+    tools.forEach((tool, i) => {
+        if (hasCacheControl(tool)) {
+            prefixes.push({
+                location: `tools[${i}]`,
+                payload: { tools: tools.slice(0, i + 1), messages: PLACEHOLDER_MESSAGES },
+                placeholder: true,
+            });
+        }
+    });
+
+    system.forEach((block, i) => {
+        if (hasCacheControl(block)) {
+            prefixes.push({
+                location: `system[${i}]`,
+                payload: { tools: payload.tools, system: system.slice(0, i + 1), messages: PLACEHOLDER_MESSAGES },
+                placeholder: true,
+            });
+        }
+    });
+
+    payload.messages.forEach((message, m) => {
+        if (!Array.isArray(message.content)) return;
+        message.content.forEach((block, i) => {
+            if (hasCacheControl(block)) {
+                prefixes.push({
+                    location: `messages[${m}].content[${i}]`,
+                    payload: {
+                        tools: payload.tools,
+                        system: payload.system,
+                        messages: [
+                            ...payload.messages.slice(0, m),
+                            { ...message, content: (message.content as unknown[]).slice(0, i + 1) as typeof message.content },
+                        ],
+                    },
+                    placeholder: false,
+                });
+            }
+        });
+    });
+
+    return prefixes;
+}
+
+// Cut plain text at every CACHE_BREAKPOINT_MARKER; the markers themselves
+// are dropped before counting
+function textPrefixes(text: string): { fullText: string; prefixes: PrefixPayload[] } {
+    const segments = text.split(CACHE_BREAKPOINT_MARKER);
+    const prefixes: PrefixPayload[] = [];
+
+    for (let i = 0; i < segments.length - 1; i++) {
+        const prefix = segments.slice(0, i + 1).join('');
+        if (!prefix.trim()) continue;
+        prefixes.push({ location: `marker ${i + 1}`, payload: textPayload(prefix), placeholder: false });
+    }
+    return { fullText: segments.join(''), prefixes };
+}
+
+async function simulate(model: string, full: CountPayload, prefixes: PrefixPayload[]): Promise<CacheSimulation> {
+    if (prefixes.length === 0) {
+        throw new PayloadError(`Mark at least one cache breakpoint (${CACHE_BREAKPOINT_MARKER} in text, or cache_control on a block)`);
+    }
+    if (prefixes.length > MAX_CACHE_BREAKPOINTS) {
+        throw new PayloadError(`The API allows at most ${MAX_CACHE_BREAKPOINTS} cache breakpoints per request`);
+    }
+
+    const minCacheableTokens = getModel(model)?.minCacheableTokens ?? 0;
+    const needsPlaceholder = prefixes.some(prefix => prefix.placeholder);
+
+    const [total, placeholder, ...prefixCounts] = await Promise.all([
+        countClaudeTokens(model, full),
+        needsPlaceholder ? countClaudeTokens(model, { messages: PLACEHOLDER_MESSAGES }) : Promise.resolve(null),
+        ...prefixes.map(prefix => countClaudeTokens(model, prefix.payload)),
+    ]);
+
+    const breakpoints = prefixes.map((prefix, i) => {
+        const prefixTokens = prefix.placeholder && placeholder
+            ? Math.max(0, prefixCounts[i].input_tokens - placeholder.input_tokens)
+            : prefixCounts[i].input_tokens;
+        return {
+            location: prefix.location,
+            prefixTokens,
+            belowMinimum: prefixTokens < minCacheableTokens,
+        };
+    });
+
+    const cachedPrefixTokens = Math.min(total.input_tokens, breakpoints[breakpoints.length - 1].prefixTokens);
+
+    return {
+        model,
+        totalTokens: total.input_tokens,
+        breakpoints,
+        cachedPrefixTokens,
+        uncachedSuffixTokens: total.input_tokens - cachedPrefixTokens,
+        minCacheableTokens,
+        approximate: needsPlaceholder,
+        ...combinedEstimateFields([total, ...(placeholder ? [placeholder] : []), ...prefixCounts]),
+    };
+}
+
+export function simulateTextCaching(text: string, model: string) {
+    const { fullText, prefixes } = textPrefixes(text);
+    return simulate(model, textPayload(fullText), prefixes);
+}
+
+export function simulatePayloadCaching(payload: CountPayload, model: string) {
+    return simulate(model, payload, payloadPrefixes(payload));
+}
@@ -0,0 +1,161 @@
+import { encodingForModel } from 'js-tiktoken';
+import { countClaudeTokens, textPayload, estimateFields } from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+export type ChunkBoundary = 'heading' | 'paragraph' | 'sentence';
+
+// Split points for each granularity, coarsest first. Every split happens at
+// the end of a match, so ranges stay contiguous and cover the whole text.
+const SPLIT_PATTERNS: Record<ChunkBoundary | 'word', RegExp> = {
+    heading: /\n(?=#{1,6}\s)/g,
+    paragraph: /\n[ \t]*\n\s*/g,
+    sentence: /[.!?]["')\]]*\s+/g,
+    word: /\s+/g,
+};
+
+const LEVELS: (ChunkBoundary | 'word')[] = ['heading', 'paragraph', 'sentence', 'word'];
+
+// Chunks are packed against local estimates, so leave some headroom before
+// checking them with the API
+const PACKING_TARGET = 0.95;
+
+// Used when the whole document can't be counted to calibrate estimates
+const DEFAULT_CLAUDE_PER_GPT4O_TOKEN = 1.2;
+
+const CHUNK_VERIFY_CONCURRENCY = 5;
+
+export interface ChunkOptions {
+    maxTokens: number;
+    overlapTokens: number;
+    boundary: ChunkBoundary;
+}
+
+export interface TextChunk {
+    index: number;
+    // Character range in the original text, end exclusive
+    start: number;
+    end: number;
+    // Claude token count for the chunk text
+    tokens: number;
+    text: string;
+    // Set when `tokens` is a local estimate, good to within ± `margin`
+    estimated?: true;
+    margin?: number;
+}
+
+interface Unit {
+    start: number;
+    end: number;
+    estimate: number;
+}
+
+function splitRange(text: string, start: number, end: number, pattern: RegExp): [number, number][] {
+    const ranges: [number, number][] = [];
+    const regex = new RegExp(pattern.source, 'g');
+    const slice = text.slice(start, end);
+    let cut = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(slice)) !== null) {
+        const at = match.index + match[0].length;
+        if (match[0].length === 0) regex.lastIndex++;
+        if (at > cut && at < slice.length) {
+            ranges.push([start + cut, start + at]);
+            cut = at;
+        }
+    }
+    ranges.push([start + cut, end]);
+    return ranges;
+}
+
+// Break a range into units no bigger than `budget` (by estimate), splitting
+// at the coarsest boundary that works and falling back to finer ones
+function toUnits(text: string, start: number, end: number, level: number, budget: number, estimate: (s: string) => number): Unit[] {
+    const size = estimate(text.slice(start, end));
+    if (size <= budget) return [{ start, end, estimate: size }];
+
+    if (level >= LEVELS.length) {
+        // Nothing left to split on: cut the range in half by characters
+        if (end - start <= 1) return [{ start, end, estimate: size }];
+        const mid = Math.floor((start + end) / 2);
+        return [
+            ...toUnits(text, start, mid, level, budget, estimate),
+            ...toUnits(text, mid, end, level, budget, estimate),
+        ];
+    }
+
+    const pieces = splitRange(text, start, end, SPLIT_PATTERNS[LEVELS[level]]);
+    if (pieces.length === 1) return toUnits(text, start, end, level + 1, budget, estimate);
+    return pieces.flatMap(([pieceStart, pieceEnd]) => toUnits(text, pieceStart, pieceEnd, level + 1, budget, estimate));
+}
+
+// Group units greedily into chunks of at most `target` estimated tokens,
+// starting each chunk with up to `overlap` tokens from the end of the last
+function pack(units: Unit[], target: number, overlap: number): [number, number][] {
+    const groups: [number, number][] = [];
+    let i = 0;
+    while (i < units.length) {
+        let j = i;
+        let size = 0;
+        while (j < units.length && (j === i || size + units[j].estimate <= target)) {
+            size += units[j].estimate;
+            j++;
+        }
+        groups.push([i, j]);
+        if (j >= units.length) break;
+
+        let next = j;
+        let overlapSize = 0;
+        while (overlap > 0 && next - 1 > i) {
+            const size = units[next - 1].estimate;
+            if (overlapSize + size > overlap) break;
+            overlapSize += size;
+            next--;
+        }
+        i = next;
+    }
+    return groups;
+}
+
+const countText = (model: string, text: string) =>
+    countClaudeTokens(model, textPayload(text))
+        .then(count => ({ ...count, input_tokens: Math.max(0, count.input_tokens - USER_TURN_FRAMING_TOKENS) }));
+
+// Split text into chunks of at most `maxTokens` Claude tokens. Chunks are
+// laid out with a calibrated local estimate, then every chunk is counted
+// with the API; any that come out over the limit are split again.
+export async function chunkText(text: string, model: string, { maxTokens, overlapTokens, boundary }: ChunkOptions): Promise<TextChunk[]> {
+    const encoder = encodingForModel('gpt-4o');
+    const gpt4oTotal = encoder.encode(text).length;
+
+    let ratio = DEFAULT_CLAUDE_PER_GPT4O_TOKEN;
+    try {
+        const claudeTotal = (await countText(model, text)).input_tokens;
+        if (gpt4oTotal > 0 && claudeTotal > 0) ratio = claudeTotal / gpt4oTotal;
+    } catch (error) {
+        console.error('Chunk calibration error:', error);
+    }
+
+    const estimate = (s: string) => Math.ceil(encoder.encode(s).length * ratio);
+    const target = Math.max(1, Math.floor(maxTokens * PACKING_TARGET));
+    const units = toUnits(text, 0, text.length, LEVELS.indexOf(boundary), target, estimate);
+    const groups = pack(units, target, Math.min(overlapTokens, Math.floor(target / 2)));
+
+    // Count a range, splitting it until every piece fits
+    const verify = async (start: number, end: number): Promise<Omit<TextChunk, 'index'>[]> => {
+        const chunk = text.slice(start, end);
+        const count = await countText(model, chunk);
+        if (count.input_tokens <= maxTokens || end - start <= 1) {
+            return [{ start, end, tokens: count.input_tokens, text: chunk, ...estimateFields(count) }];
+        }
+        const inner = units.filter(unit => unit.start > start && unit.start < end);
+        const mid = inner.length > 0 ? inner[Math.floor(inner.length / 2)].start : Math.floor((start + end) / 2);
+        return [...await verify(start, mid), ...await verify(mid, end)];
+    };
+
+    const verified = await mapWithConcurrency(groups, CHUNK_VERIFY_CONCURRENCY, ([first, last]) =>
+        verify(units[first].start, units[last - 1].end)
+    );
+
+    return verified.flat().map((chunk, index) => ({ index, ...chunk }));
+}
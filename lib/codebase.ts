@@ -0,0 +1,259 @@
+import { unzipSync } from 'fflate';
+import ignore, { Ignore } from 'ignore';
+import {
+    textPayload,
+    countClaudeTokens,
+} from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { decodeText } from '@/lib/contentSniffing';
+
+// Upper bound on files inflated from one archive
+export const MAX_CODEBASE_FILES = 2000;
+
+// Files bigger than this are skipped rather than inflated
+const MAX_CODEBASE_FILE_BYTES = 1024 * 1024;
+
+// Upper bound on the uncompressed size of everything inflated from one
+// archive, so a zip bomb can't fill memory
+const MAX_CODEBASE_TOTAL_BYTES = 64 * 1024 * 1024;
+
+// How many of the heaviest files the report lists by default
+export const DEFAULT_TOP_FILES = 20;
+
+// How many files are counted against the API at once
+const CODEBASE_CONCURRENCY = 5;
+
+// Thrown for archives we can't unpack or that are too big to count
+export class ArchiveError extends Error {}
+
+export interface CodebaseFile {
+    path: string;
+    content: string;
+}
+
+export type SkipReason = 'gitignore' | 'excluded' | 'binary' | 'tooLarge';
+
+export interface CodebaseArchive {
+    files: CodebaseFile[];
+    // How many entries were left out, by reason
+    skipped: Record<SkipReason, number>;
+}
+
+export interface CodebaseTreeNode {
+    name: string;
+    path: string;
+    type: 'directory' | 'file';
+    // Sum of the counted files below this node
+    tokens: number;
+    files: number;
+    error?: string;
+    children?: CodebaseTreeNode[];
+}
+
+export interface CodebaseReport {
+    fileCount: number;
+    failed: number;
+    skipped: Record<SkipReason, number>;
+    tree: CodebaseTreeNode;
+    topFiles: { path: string; tokens: number }[];
+    // Whether any file's count is a local estimate
+    estimated: boolean;
+}
+
+// Whether an upload should be unpacked as a codebase archive
+export function isZipUpload(file: File, fileType?: string) {
+    return fileType === 'archive' ||
+        file.type === 'application/zip' ||
+        file.type === 'application/x-zip-compressed' ||
+        file.name.toLowerCase().endsWith('.zip');
+}
+
+// GitHub-style downloads wrap everything in a single top-level folder; strip
+// it so paths read as they do in the repo
+function commonRoot(names: string[]) {
+    const first = names[0]?.split('/')[0];
+    if (!first || names.some(name => !name.startsWith(`${first}/`))) return '';
+    return `${first}/`;
+}
+
+function dirname(path: string) {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash + 1);
+}
+
+// Unpack a zip in memory and keep the text files a prompt would include.
+// Every .gitignore in the archive applies to its own directory and below;
+// `exclude` takes extra patterns in the same syntax.
+export function readCodebaseArchive(data: Uint8Array, exclude: string[] = []): CodebaseArchive {
+    const skipped: Record<SkipReason, number> = { gitignore: 0, excluded: 0, binary: 0, tooLarge: 0 };
+    const entries: string[] = [];
+
+    // First pass: list the entries and inflate only the .gitignore files
+    let gitignores: Record<string, Uint8Array>;
+    try {
+        gitignores = unzipSync(data, {
+            filter: (entry) => {
+                if (!entry.name.endsWith('/')) entries.push(entry.name);
+                return (entry.name === '.gitignore' || entry.name.endsWith('/.gitignore')) &&
+                    entry.originalSize <= MAX_CODEBASE_FILE_BYTES;
+            }
+        });
+    } catch {
+        throw new ArchiveError('Could not read the zip archive');
+    }
+
+    const root = commonRoot(entries);
+    const decoder = new TextDecoder();
+    const rules: { dir: string; matcher: Ignore }[] = Object.entries(gitignores).map(([name, content]) => ({
+        dir: dirname(name.slice(root.length)),
+        matcher: ignore().add(decoder.decode(content)),
+    }));
+    const excluded = ignore().add(exclude);
+
+    const skipReason = (path: string): SkipReason | null => {
+        if (path === '.git' || path.startsWith('.git/') || path.includes('/.git/')) return 'gitignore';
+        if (rules.some(({ dir, matcher }) => path.startsWith(dir) && matcher.ignores(path.slice(dir.length)))) {
+            return 'gitignore';
+        }
+        if (excluded.ignores(path)) return 'excluded';
+        return null;
+    };
+
+    // Second pass: inflate what survives the ignore rules and size limit.
+    // Sizes come from the zip headers, which fflate also sizes its output
+    // buffers by, so the budgets are checked before each entry is inflated.
+    let keptCount = 0;
+    let keptBytes = 0;
+    const kept = unzipSync(data, {
+        filter: (entry) => {
+            if (entry.name.endsWith('/')) return false;
+            const reason = skipReason(entry.name.slice(root.length));
+            if (reason) {
+                skipped[reason]++;
+                return false;
+            }
+            if (entry.originalSize > MAX_CODEBASE_FILE_BYTES) {
+                skipped.tooLarge++;
+                return false;
+            }
+            keptCount++;
+            keptBytes += entry.originalSize;
+            if (keptCount > MAX_CODEBASE_FILES) {
+                throw new ArchiveError(`Archive has more than ${MAX_CODEBASE_FILES} files to count. Narrow it down with exclude globs.`);
+            }
+            if (keptBytes > MAX_CODEBASE_TOTAL_BYTES) {
+                throw new ArchiveError(`Archive unpacks to more than ${MAX_CODEBASE_TOTAL_BYTES / 1024 / 1024} MB. Narrow it down with exclude globs.`);
+            }
+            return true;
+        }
+    });
+
+    const files: CodebaseFile[] = [];
+    for (const [name, content] of Object.entries(kept)) {
+        const text = decodeText(content);
+        if (text === null) {
+            skipped.binary++;
+            continue;
+        }
+        files.push({ path: name.slice(root.length), content: text });
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { files, skipped };
+}
+
+// Concatenate files in the document format recommended for long-context
+// prompts, one <document> per file with its path as the source
+export function codebasePrompt(files: CodebaseFile[]) {
+    const documents = files.map((file, i) => [
+        `<document index="${i + 1}">`,
+        `<source>${file.path}</source>`,
+        '<document_content>',
+        file.content,
+        '</document_content>',
+        '</document>',
+    ].join('\n'));
+    return ['<documents>', ...documents, '</documents>'].join('\n');
+}
+
+// Fold per-file counts into a directory tree with totals per folder.
+// Folders come before files, each sorted by name.
+function buildTree(counts: { path: string; tokens: number | null; error?: string }[]): CodebaseTreeNode {
+    const root: CodebaseTreeNode = { name: '', path: '', type: 'directory', tokens: 0, files: 0, children: [] };
+
+    for (const count of counts) {
+        const parts = count.path.split('/');
+        let node = root;
+        parts.forEach((part, i) => {
+            node.tokens += count.tokens ?? 0;
+            node.files++;
+            const path = parts.slice(0, i + 1).join('/');
+            if (i === parts.length - 1) {
+                node.children!.push({
+                    name: part,
+                    path,
+                    type: 'file',
+                    tokens: count.tokens ?? 0,
+                    files: 1,
+                    ...(count.error ? { error: count.error } : {}),
+                });
+                return;
+            }
+            let child = node.children!.find(c => c.type === 'directory' && c.name === part);
+            if (!child) {
+                child = { name: part, path, type: 'directory', tokens: 0, files: 0, children: [] };
+                node.children!.push(child);
+            }
+            node = child;
+        });
+    }
+
+    const sort = (node: CodebaseTreeNode) => {
+        node.children?.sort((a, b) =>
+            a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1
+        );
+        node.children?.forEach(sort);
+    };
+    sort(root);
+    return root;
+}
+
+// Count every file on its own and report totals per folder plus the heaviest
+// files. A file that fails to count is flagged in the tree and adds nothing.
+export async function countCodebase(model: string, archive: CodebaseArchive, topN = DEFAULT_TOP_FILES): Promise<CodebaseReport> {
+    const counts = await mapWithConcurrency(archive.files, CODEBASE_CONCURRENCY, async (file) => {
+        // The API rejects empty text, and there's nothing to count anyway
+        if (!file.content.trim()) return { path: file.path, tokens: 0 };
+        try {
+            const count = await countClaudeTokens(model, textPayload(file.content));
+            return {
+                path: file.path,
+                tokens: Math.max(0, count.input_tokens - USER_TURN_FRAMING_TOKENS),
+                estimated: count.estimated
+            };
+        } catch (error) {
+            console.error(`Token counting error for ${file.path}:`, error);
+            return {
+                path: file.path,
+                tokens: null,
+                error: error instanceof Error ? error.message : 'Failed to count tokens'
+            };
+        }
+    });
+
+    const topFiles = counts
+        .filter((count): count is { path: string; tokens: number } => count.tokens !== null)
+        .sort((a, b) => b.tokens - a.tokens)
+        .slice(0, topN)
+        .map(({ path, tokens }) => ({ path, tokens }));
+
+    return {
+        fileCount: counts.length,
+        failed: counts.filter(count => count.tokens === null).length,
+        skipped: archive.skipped,
+        tree: buildTree(counts),
+        topFiles,
+        estimated: counts.some(count => count.estimated),
+    };
+}
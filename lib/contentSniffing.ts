@@ -0,0 +1,34 @@
+import { sniffImageFormat } from '@/lib/imageEstimate';
+
+// How much of a file is scanned for NUL bytes when deciding it's binary
+const BINARY_SNIFF_BYTES = 8000;
+
+// What a file's leading bytes say it is. Office documents are zip files too.
+export type SniffedKind = 'pdf' | 'image' | 'zip';
+
+export function sniffFileKind(content: Uint8Array): SniffedKind | null {
+    // The header has to open the file, after at most a BOM and whitespace;
+    // a text file that merely mentions %PDF- further in stays text
+    const head = new TextDecoder('latin1').decode(content.subarray(0, 64));
+    if (/^(\xEF\xBB\xBF)?\s*%PDF-/.test(head)) return 'pdf';
+    if (sniffImageFormat(content)) return 'image';
+    if (content[0] === 0x50 && content[1] === 0x4b && content[2] === 0x03 && content[3] === 0x04) return 'zip';
+    return null;
+}
+
+export function isBinary(content: Uint8Array) {
+    return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+const strictDecoder = new TextDecoder('utf-8', { fatal: true });
+
+// Decode text that's meant to be UTF-8, or return null when it's binary
+// (NUL bytes, or not valid UTF-8)
+export function decodeText(content: Uint8Array): string | null {
+    if (isBinary(content)) return null;
+    try {
+        return strictDecoder.decode(content);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,87 @@
+import { ClaudeCount, countClaudeTokens, textPayload, combinedEstimateFields } from '@/lib/tokenCounting';
+import type { ModelInfo } from '@/lib/models';
+
+export interface ContextFit {
+    model: string;
+    contextWindow: number;
+    reservedOutputTokens: number;
+    // Tokens left for input once output is reserved
+    inputBudget: number;
+    inputTokens: number;
+    fits: boolean;
+    // Longest prefix (in UTF-16 code units) that fits the budget, when the
+    // input doesn't fit as a whole
+    cutOffset: number | null;
+    cutTokens: number | null;
+    // Set when the counts are local estimates, each good to within ± `margin`
+    estimated?: true;
+    margin?: number;
+}
+
+// Don't leave half a surrogate pair at the end of a cut
+const safeOffset = (text: string, offset: number) => {
+    const code = text.charCodeAt(offset - 1);
+    return code >= 0xd800 && code <= 0xdbff ? offset - 1 : offset;
+};
+
+// Check whether text fits the model's context window with `maxTokens`
+// reserved for output. When it doesn't, binary search for the longest
+// prefix that does; token counts grow with length, so this takes about
+// log2(length) countTokens calls.
+export async function checkContextFit(text: string, model: ModelInfo, maxTokens: number): Promise<ContextFit> {
+    const reservedOutputTokens = Math.min(Math.max(0, maxTokens), model.maxOutputTokens);
+    const inputBudget = Math.max(0, model.contextWindow - reservedOutputTokens);
+
+    // Every count made, for the estimate marker
+    const counts: ClaudeCount[] = [];
+    const countText = async (prefix: string) => {
+        const count = await countClaudeTokens(model.id, textPayload(prefix));
+        counts.push(count);
+        return count.input_tokens;
+    };
+
+    const inputTokens = await countText(text);
+
+    const fit: ContextFit = {
+        model: model.id,
+        contextWindow: model.contextWindow,
+        reservedOutputTokens,
+        inputBudget,
+        inputTokens,
+        fits: inputTokens <= inputBudget,
+        cutOffset: null,
+        cutTokens: null,
+    };
+    if (fit.fits) return { ...fit, ...combinedEstimateFields(counts) };
+
+    // Start the upper bound at the proportional guess and widen if needed
+    let lo = 0;
+    let loTokens = 0;
+    let hi = text.length;
+    const guess = Math.floor(text.length * (inputBudget / inputTokens));
+    if (guess > 0 && guess < text.length) {
+        const guessTokens = await countText(text.slice(0, safeOffset(text, guess)));
+        if (guessTokens <= inputBudget) {
+            lo = guess;
+            loTokens = guessTokens;
+        } else {
+            hi = guess;
+        }
+    }
+
+    while (hi - lo > 1) {
+        const mid = safeOffset(text, Math.floor((lo + hi) / 2));
+        if (mid <= lo) break;
+        const midTokens = await countText(text.slice(0, mid));
+        if (midTokens <= inputBudget) {
+            lo = mid;
+            loTokens = midTokens;
+        } else {
+            hi = mid;
+        }
+    }
+
+    fit.cutOffset = lo;
+    fit.cutTokens = loTokens;
+    return { ...fit, ...combinedEstimateFields(counts) };
+}
@@ -0,0 +1,213 @@
+import { unzipSync } from 'fflate';
+
+// Formats we pull text out of before counting
+export type ExtractionMethod = 'docx' | 'xlsx' | 'pptx' | 'html';
+
+// Thrown for documents we recognise but can't read
+export class ExtractionError extends Error {}
+
+const MIME_METHODS: Record<string, ExtractionMethod> = {
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'text/html': 'html',
+    'application/xhtml+xml': 'html',
+};
+
+const EXTENSION_METHODS: Record<string, ExtractionMethod> = {
+    docx: 'docx',
+    xlsx: 'xlsx',
+    pptx: 'pptx',
+    html: 'html',
+    htm: 'html',
+    xhtml: 'html',
+};
+
+// Which extractor applies to a file, or null to count it as-is
+export function extractionMethod(name: string, mimeType: string): ExtractionMethod | null {
+    const extension = name.toLowerCase().split('.').pop() ?? '';
+    return MIME_METHODS[mimeType] ?? EXTENSION_METHODS[extension] ?? null;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', middot: '·', bull: '•',
+};
+
+function decodeEntities(text: string) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+        if (body[0] === '#') {
+            const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+    });
+}
+
+// Parse `key="value"` pairs out of a tag's attribute string
+function attributes(source: string) {
+    const attrs: Record<string, string> = {};
+    for (const match of Array.from(source.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g))) {
+        attrs[match[1]] = decodeEntities(match[2]);
+    }
+    return attrs;
+}
+
+// Walk an XML part and keep the character data inside `textTag` elements.
+// `separators` maps an opening (`w:tab`) or closing (`/w:p`) tag to the text
+// it stands for.
+function collectText(xml: string, textTag: string, separators: Record<string, string>) {
+    let text = '';
+    let inText = false;
+    const pattern = /<(\/?)([\w:.-]+)[^>]*?(\/?)>|([^<]+)/g;
+    for (let match = pattern.exec(xml); match; match = pattern.exec(xml)) {
+        const [, closing, tag, selfClosing, chars] = match;
+        if (chars !== undefined) {
+            if (inText) text += decodeEntities(chars);
+            continue;
+        }
+        if (tag === textTag) {
+            inText = !closing && !selfClosing;
+            continue;
+        }
+        text += separators[closing ? `/${tag}` : tag] ?? '';
+    }
+    return text;
+}
+
+// Collapse the whitespace runs extraction leaves behind
+function tidy(text: string) {
+    return text
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function unzipParts(content: Uint8Array, format: string, wanted: (name: string) => boolean) {
+    try {
+        const parts = unzipSync(content, { filter: (entry) => wanted(entry.name) });
+        const decoder = new TextDecoder();
+        return Object.fromEntries(Object.entries(parts).map(([name, data]) => [name, decoder.decode(data)]));
+    } catch {
+        throw new ExtractionError(`Could not read the ${format} file`);
+    }
+}
+
+// Order slide1.xml, slide2.xml, ..., slide10.xml by their number
+const partNumber = (name: string) => Number(name.match(/(\d+)\.xml$/)?.[1] ?? 0);
+
+function extractDocx(content: Uint8Array) {
+    const parts = unzipParts(content, 'DOCX', name => name === 'word/document.xml');
+    const xml = parts['word/document.xml'];
+    if (xml === undefined) throw new ExtractionError('Not a DOCX file: word/document.xml is missing');
+
+    return tidy(collectText(xml, 'w:t', {
+        'w:tab': '\t',
+        'w:br': '\n',
+        'w:cr': '\n',
+        '/w:p': '\n',
+        '/w:tc': '\t',
+    }));
+}
+
+function extractPptx(content: Uint8Array) {
+    const parts = unzipParts(content, 'PPTX', name => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+    const slides = Object.keys(parts).sort((a, b) => partNumber(a) - partNumber(b));
+    if (slides.length === 0) throw new ExtractionError('Not a PPTX file: no slides found');
+
+    return slides.map((name, i) => {
+        const text = tidy(collectText(parts[name], 'a:t', { 'a:br': '\n', 'a:tab': '\t', '/a:p': '\n' }));
+        return `# Slide ${i + 1}\n${text}`;
+    }).join('\n\n');
+}
+
+// Column letters of a cell reference (the "BC" in "BC12") as a 0-based index
+function columnIndex(reference: string) {
+    const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function csvField(value: string) {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Each sheet becomes a CSV block headed with its name, in workbook order
+function extractXlsx(content: Uint8Array) {
+    const parts = unzipParts(content, 'XLSX', name =>
+        name === 'xl/workbook.xml' ||
+        name === 'xl/_rels/workbook.xml.rels' ||
+        name === 'xl/sharedStrings.xml' ||
+        /^xl\/worksheets\/sheet\d+\.xml$/.test(name)
+    );
+    const workbook = parts['xl/workbook.xml'];
+    if (workbook === undefined) throw new ExtractionError('Not an XLSX file: xl/workbook.xml is missing');
+
+    const sharedStrings = Array.from((parts['xl/sharedStrings.xml'] ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+        .map(([, item]) => collectText(item.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't', {}));
+
+    const targets: Record<string, string> = {};
+    for (const [, attrSource] of Array.from((parts['xl/_rels/workbook.xml.rels'] ?? '').matchAll(/<Relationship\b([^>]*)\/?>/g))) {
+        const { Id, Target } = attributes(attrSource);
+        if (Id && Target) targets[Id] = `xl/${Target.replace(/^\/?xl\//, '')}`;
+    }
+
+    const sheets = Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g)).map(([, attrSource], i) => {
+        const attrs = attributes(attrSource);
+        return { name: attrs.name ?? `Sheet${i + 1}`, part: targets[attrs['r:id']] ?? `xl/worksheets/sheet${i + 1}.xml` };
+    });
+
+    return sheets.filter(sheet => parts[sheet.part] !== undefined).map(sheet => {
+        const rows: string[] = [];
+        for (const [, , rowBody = ''] of Array.from(parts[sheet.part].matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+            const cells: string[] = [];
+            for (const [, cellAttrs, cellBody = ''] of Array.from(rowBody.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+                const { r, t } = attributes(cellAttrs);
+                const raw = decodeEntities(cellBody.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+                const value =
+                    t === 's' ? sharedStrings[Number(raw)] ?? '' :
+                    t === 'inlineStr' ? collectText(cellBody, 't', {}) :
+                    t === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE') :
+                    raw;
+                const index = r ? columnIndex(r) : cells.length;
+                while (cells.length < index) cells.push('');
+                cells[index] = csvField(value);
+            }
+            rows.push(cells.join(','));
+        }
+        // Drop trailing empty rows that formatting alone leaves in a sheet
+        while (rows.length > 0 && rows[rows.length - 1].replace(/,/g, '') === '') rows.pop();
+        return `# Sheet: ${sheet.name}\n${rows.join('\n')}`;
+    }).join('\n\n');
+}
+
+const HTML_BLOCK_TAGS = 'p|div|section|article|header|footer|main|nav|aside|h[1-6]|li|ul|ol|dl|dt|dd|tr|table|blockquote|pre|figure|figcaption|form|fieldset|address|hr';
+
+// Visible text of an HTML page: no scripts, styles or markup, with block
+// elements on their own lines
+export function htmlToText(html: string) {
+    return tidy(decodeEntities(html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(new RegExp(`</?(?:${HTML_BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+        .replace(/<\/t[dh]\s*>/gi, '\t')
+        .replace(/<[^>]+>/g, '')
+    ));
+}
+
+// Pull the countable text out of a document
+export function extractText(method: ExtractionMethod, content: Uint8Array): string {
+    switch (method) {
+        case 'docx':
+            return extractDocx(content);
+        case 'xlsx':
+            return extractXlsx(content);
+        case 'pptx':
+            return extractPptx(content);
+        case 'html':
+            return htmlToText(new TextDecoder().decode(content));
+    }
+}
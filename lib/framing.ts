@@ -0,0 +1,9 @@
+// Tokens a single user turn adds around its text. Lives apart from
+// tokenCounting so the UI can take the same figure off plain-text counts
+// without bundling the SDK.
+export const USER_TURN_FRAMING_TOKENS = 7;
+
+// A single-turn count less the turn framing, never below zero
+export function withoutFraming(tokens: number): number {
+    return Math.max(0, tokens - USER_TURN_FRAMING_TOKENS);
+}
@@ -0,0 +1,92 @@
+import { Jimp } from 'jimp';
+import type { ImageMediaType } from '@/lib/tokenCounting';
+import {
+    ImageDimensions,
+    ImageFormat,
+    sniffImageFormat,
+    readImageDimensions,
+    estimateImageTokens,
+} from '@/lib/imageEstimate';
+
+// Thrown for image uploads we can't identify or decode
+export class ImageFormatError extends Error {}
+
+// Formats the API takes as-is
+const API_MEDIA_TYPES: Partial<Record<ImageFormat, ImageMediaType>> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+
+// Formats we can decode to convert or downscale
+const DECODABLE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'gif', 'bmp', 'tiff'];
+
+export function apiMediaType(format: ImageFormat): ImageMediaType | null {
+    return API_MEDIA_TYPES[format] ?? null;
+}
+
+// What happened to an image on its way to the API
+export interface ImageConversion {
+    originalFormat: ImageFormat;
+    mediaType: ImageMediaType;
+    original: ImageDimensions | null;
+    converted: ImageDimensions | null;
+    // Re-encoded because the API doesn't take the original format
+    reencoded: boolean;
+    // Scaled down to the model's maximum dimensions
+    downscaled: boolean;
+}
+
+export interface PreparedImage {
+    content: Uint8Array;
+    mediaType: ImageMediaType;
+    // Null when the image is sent exactly as uploaded
+    conversion: ImageConversion | null;
+}
+
+// Detect the real format from the image's bytes and make it sendable:
+// formats the API doesn't take (BMP, TIFF) become PNG, and with `downscale`
+// anything over the model's maximum dimensions is scaled down first
+export async function prepareImage(content: Uint8Array, downscale = false): Promise<PreparedImage> {
+    const format = sniffImageFormat(content);
+    if (!format) {
+        throw new ImageFormatError('Unsupported image format; use PNG, JPEG, GIF, WebP, BMP or TIFF');
+    }
+
+    const original = readImageDimensions(content);
+    const target = downscale && original ? estimateImageTokens(original) : null;
+    const needsResize = !!target?.resized && DECODABLE_FORMATS.includes(format);
+    const mediaType = apiMediaType(format);
+
+    if (mediaType && !needsResize) {
+        return { content, mediaType, conversion: null };
+    }
+
+    let image: Awaited<ReturnType<typeof Jimp.read>>;
+    try {
+        image = await Jimp.read(Buffer.from(content));
+    } catch {
+        throw new ImageFormatError(`Could not decode the ${format.toUpperCase()} image`);
+    }
+    if (needsResize && target) {
+        image.resize({ w: target.resizedWidth, h: target.resizedHeight });
+    }
+
+    // Keep JPEGs as JPEG so photos don't balloon; everything else goes to PNG
+    const outputType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
+    const converted = new Uint8Array(await image.getBuffer(outputType));
+
+    return {
+        content: converted,
+        mediaType: outputType,
+        conversion: {
+            originalFormat: format,
+            mediaType: outputType,
+            original,
+            converted: { width: image.width, height: image.height },
+            reencoded: outputType !== mediaType,
+            downscaled: needsResize,
+        },
+    };
+}
@@ -0,0 +1,170 @@
+// Offline image token estimates from Claude's documented vision limits. Kept
+// free of server imports so the UI can estimate before anything is uploaded.
+
+// Images with a longer edge than this are scaled down first
+export const MAX_IMAGE_LONG_EDGE = 1568;
+
+// Images over roughly this many tokens (~1.15 megapixels) are also scaled
+// down, keeping their aspect ratio
+export const MAX_IMAGE_TOKENS = 1600;
+
+// tokens ≈ (width × height) / 750
+export const PIXELS_PER_TOKEN = 750;
+
+// Formats we can recognise from their leading bytes. Only PNG, JPEG, GIF and
+// WebP can be sent to the API as-is.
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp' | 'tiff';
+
+export interface ImageDimensions {
+    width: number;
+    height: number;
+}
+
+export interface ImageEstimate extends ImageDimensions {
+    resizedWidth: number;
+    resizedHeight: number;
+    resized: boolean;
+    tokens: number;
+}
+
+const u16be = (b: Uint8Array, i: number) => (b[i] << 8) | b[i + 1];
+const u16le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8);
+const u24le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16);
+const u32be = (b: Uint8Array, i: number) => ((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+const u32le = (b: Uint8Array, i: number) => (b[i] | (b[i + 1] << 8) | (b[i + 2] << 16) | (b[i + 3] << 24)) >>> 0;
+const i32le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16) | (b[i + 3] << 24);
+const ascii = (b: Uint8Array, start: number, end: number) => String.fromCharCode(...Array.from(b.subarray(start, end)));
+
+function jpegDimensions(b: Uint8Array): ImageDimensions | null {
+    let i = 2;
+    while (i + 9 < b.length) {
+        if (b[i] !== 0xff) {
+            i++;
+            continue;
+        }
+        const marker = b[i + 1];
+        // Start-of-frame markers carry the dimensions; C4, C8 and CC are
+        // other tables that share the range
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: u16be(b, i + 5), width: u16be(b, i + 7) };
+        }
+        // Standalone markers have no length field
+        if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+            i += marker === 0xff ? 1 : 2;
+            continue;
+        }
+        i += 2 + u16be(b, i + 2);
+    }
+    return null;
+}
+
+function webpDimensions(b: Uint8Array): ImageDimensions | null {
+    switch (ascii(b, 12, 16)) {
+        case 'VP8 ':
+            return { width: u16le(b, 26) & 0x3fff, height: u16le(b, 28) & 0x3fff };
+        case 'VP8L':
+            return {
+                width: 1 + (((b[22] & 0x3f) << 8) | b[21]),
+                height: 1 + (((b[24] & 0x0f) << 10) | (b[23] << 2) | ((b[22] & 0xc0) >> 6)),
+            };
+        case 'VP8X':
+            return { width: 1 + u24le(b, 24), height: 1 + u24le(b, 27) };
+        default:
+            return null;
+    }
+}
+
+// Width and height are tags 256 and 257 of the first image file directory
+function tiffDimensions(b: Uint8Array): ImageDimensions | null {
+    const little = b[0] === 0x49;
+    const u16 = (i: number) => little ? u16le(b, i) : u16be(b, i);
+    const u32 = (i: number) => little ? u32le(b, i) : u32be(b, i);
+    const ifd = u32(4);
+    if (ifd + 2 > b.length) return null;
+
+    let width = 0;
+    let height = 0;
+    for (let n = 0, entries = u16(ifd); n < entries; n++) {
+        const entry = ifd + 2 + n * 12;
+        if (entry + 12 > b.length) break;
+        const tag = u16(entry);
+        // SHORT (type 3) values sit in the first two bytes of the value field
+        const value = u16(entry + 2) === 3 ? u16(entry + 8) : u32(entry + 8);
+        if (tag === 256) width = value;
+        if (tag === 257) height = value;
+    }
+    return { width, height };
+}
+
+// DIB header sizes of the BMP versions in use: OS/2 1.x, Windows 3.x, v4, v5
+const BMP_DIB_HEADER_SIZES = [12, 40, 108, 124];
+
+// "BM" opens plenty of text files, so the rest of the BMP file header has to
+// agree too: the stored file size, zeroed reserved fields and a known DIB
+// header size
+const isBmp = (b: Uint8Array) =>
+    b.length >= 18 && ascii(b, 0, 2) === 'BM' &&
+    u32le(b, 2) === b.length && u32le(b, 6) === 0 &&
+    BMP_DIB_HEADER_SIZES.includes(u32le(b, 14));
+
+// Identify an image from its magic bytes rather than its name or MIME type
+export function sniffImageFormat(b: Uint8Array): ImageFormat | null {
+    if (b.length >= 8 && b[0] === 0x89 && ascii(b, 1, 4) === 'PNG') return 'png';
+    if (b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return 'jpeg';
+    if (b.length >= 6 && ascii(b, 0, 4) === 'GIF8') return 'gif';
+    if (b.length >= 12 && ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 12) === 'WEBP') return 'webp';
+    if (isBmp(b)) return 'bmp';
+    if (b.length >= 8 && (ascii(b, 0, 4) === 'II*\0' || ascii(b, 0, 4) === 'MM\0*')) return 'tiff';
+    return null;
+}
+
+// Read width and height from a PNG, JPEG, GIF, WebP, BMP or TIFF header.
+// Returns null for anything else or a truncated header.
+export function readImageDimensions(b: Uint8Array): ImageDimensions | null {
+    let dimensions: ImageDimensions | null = null;
+    switch (sniffImageFormat(b)) {
+        case 'png':
+            dimensions = b.length >= 24 ? { width: u32be(b, 16), height: u32be(b, 20) } : null;
+            break;
+        case 'jpeg':
+            dimensions = jpegDimensions(b);
+            break;
+        case 'gif':
+            dimensions = b.length >= 10 ? { width: u16le(b, 6), height: u16le(b, 8) } : null;
+            break;
+        case 'webp':
+            dimensions = b.length >= 30 ? webpDimensions(b) : null;
+            break;
+        case 'bmp':
+            // Bottom-up bitmaps store a negative height
+            dimensions = b.length >= 26 ? { width: i32le(b, 18), height: Math.abs(i32le(b, 22)) } : null;
+            break;
+        case 'tiff':
+            dimensions = tiffDimensions(b);
+            break;
+    }
+    return dimensions && dimensions.width > 0 && dimensions.height > 0 ? dimensions : null;
+}
+
+// Estimate what an image costs: scale it down to `maxLongEdge` if given (to
+// try out a resolution), then to Claude's own limits, then apply the
+// pixels-per-token formula
+export function estimateImageTokens({ width, height }: ImageDimensions, maxLongEdge?: number): ImageEstimate {
+    const target = maxLongEdge ? Math.min(1, maxLongEdge / Math.max(width, height)) : 1;
+    const scale = Math.min(
+        target,
+        MAX_IMAGE_LONG_EDGE / Math.max(width, height),
+        Math.sqrt((MAX_IMAGE_TOKENS * PIXELS_PER_TOKEN) / (width * height))
+    );
+    const resizedWidth = scale < 1 ? Math.max(1, Math.floor(width * scale)) : width;
+    const resizedHeight = scale < 1 ? Math.max(1, Math.floor(height * scale)) : height;
+
+    return {
+        width,
+        height,
+        resizedWidth,
+        resizedHeight,
+        resized: scale < 1,
+        tokens: Math.ceil((resizedWidth * resizedHeight) / PIXELS_PER_TOKEN),
+    };
+}
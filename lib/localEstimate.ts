@@ -0,0 +1,230 @@
+import { promises as fs } from 'fs';
+import { encodingForModel } from 'js-tiktoken';
+import type { CountPayload, ContentBlock } from '@/lib/tokenCounting';
+import { TokenizerFamily, getModel } from '@/lib/models';
+import { readImageDimensions, estimateImageTokens } from '@/lib/imageEstimate';
+
+// Offline stand-in for the countTokens API, used when there's no Anthropic
+// key or the API can't be reached. Text is tokenized with GPT-4o's o200k
+// encoding and scaled per tokenizer family; images use the documented
+// pixels-per-token formula and PDFs a flat per-page figure.
+
+export interface Calibration {
+    // Claude tokens per o200k token of the same text
+    ratio: number;
+    // Relative error to quote for text estimates (0.1 = ±10%)
+    margin: number;
+    // How many saved counts the figures above came from; 0 for the defaults
+    samples: number;
+}
+
+// A real API count of plain text, saved to refine the calibration
+export interface CalibrationSample {
+    model: string;
+    o200kTokens: number;
+    tokens: number;
+}
+
+// Starting points before any counts have been saved. Claude 3's tokenizer
+// runs a little above o200k on English prose and code; Opus 4.7's produces
+// up to roughly a third more again.
+const DEFAULT_CALIBRATION: Record<TokenizerFamily, Calibration> = {
+    'claude-3': { ratio: 1.15, margin: 0.15, samples: 0 },
+    'claude-opus-4-7': { ratio: 1.35, margin: 0.2, samples: 0 },
+};
+
+// Fewer saved counts than this and the defaults are kept
+const MIN_CALIBRATION_SAMPLES = 5;
+// Texts shorter than this are mostly noise for a ratio, so aren't saved
+const MIN_SAMPLE_TOKENS = 20;
+// Most recent samples kept per file
+const MAX_CALIBRATION_SAMPLES = 500;
+// Never quote a text margin tighter than this
+const MIN_TEXT_MARGIN = 0.05;
+// New samples are written out in batches, at most this often
+const CALIBRATION_WRITE_DELAY_MS = 10_000;
+
+// Non-text content: a PDF page goes in as an image of the page plus its text
+const PDF_TOKENS_PER_PAGE = 2000;
+const PDF_MARGIN = 0.5;
+const IMAGE_MARGIN = 0.1;
+// Unreadable image headers are assumed to be at the size limit
+const UNKNOWN_IMAGE_TOKENS = 1600;
+
+// Tool use adds a system prompt of its own, and every turn after the first
+// and the system prompt add some framing; none of these are published
+// exactly, so they're quoted with a fixed margin
+const TOOL_USE_SYSTEM_TOKENS = 346;
+const TURN_FRAMING_TOKENS = 4;
+const FRAMING_MARGIN = 0.5;
+
+// Where saved counts are read from and appended to. Unset means only the
+// defaults are used and nothing is saved.
+const calibrationFile = process.env.TOKEN_CALIBRATION_FILE || null;
+
+let encoder: ReturnType<typeof encodingForModel> | null = null;
+
+export function o200kTokens(text: string): number {
+    encoder ??= encodingForModel('gpt-4o');
+    return encoder.encode(text).length;
+}
+
+let samples: Promise<CalibrationSample[]> | null = null;
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+function loadSamples() {
+    if (!samples) {
+        samples = calibrationFile
+            ? fs.readFile(calibrationFile, 'utf8')
+                .then(contents => (JSON.parse(contents) as { samples?: CalibrationSample[] }).samples ?? [])
+                .catch(() => [])
+            : Promise.resolve([]);
+    }
+    return samples;
+}
+
+const familyOf = (model: string): TokenizerFamily => getModel(model)?.tokenizer ?? 'claude-3';
+
+// Fit a family's ratio to its saved counts: total Claude tokens over total
+// o200k tokens, with twice the spread of per-sample ratios as the margin
+export function fitCalibration(family: TokenizerFamily, saved: CalibrationSample[]): Calibration {
+    const matching = saved.filter(sample => familyOf(sample.model) === family);
+    if (matching.length < MIN_CALIBRATION_SAMPLES) return DEFAULT_CALIBRATION[family];
+
+    const ratio = matching.reduce((sum, sample) => sum + sample.tokens, 0) /
+        matching.reduce((sum, sample) => sum + sample.o200kTokens, 0);
+    const variance = matching.reduce((sum, sample) => sum + (sample.tokens / sample.o200kTokens - ratio) ** 2, 0) / matching.length;
+    return {
+        ratio,
+        margin: Math.max(MIN_TEXT_MARGIN, (2 * Math.sqrt(variance)) / ratio),
+        samples: matching.length,
+    };
+}
+
+export async function getCalibration(model: string): Promise<Calibration> {
+    return fitCalibration(familyOf(model), await loadSamples());
+}
+
+// Write the samples out once CALIBRATION_WRITE_DELAY_MS has passed, taking
+// in everything recorded meanwhile
+function scheduleCalibrationWrite(file: string) {
+    if (writeTimer) return;
+    writeTimer = setTimeout(async () => {
+        writeTimer = null;
+        try {
+            await fs.writeFile(file, JSON.stringify({ samples: await loadSamples() }));
+        } catch (error) {
+            console.error('Token calibration write error:', error);
+        }
+    }, CALIBRATION_WRITE_DELAY_MS);
+    // A pending write shouldn't keep the process alive on its own
+    writeTimer.unref?.();
+}
+
+// Save a real count of plain text (framing already removed) for later fits.
+// Samples are kept in memory and written out in batches. A no-op unless
+// TOKEN_CALIBRATION_FILE is set.
+export async function recordCalibrationSample(model: string, text: string, tokens: number) {
+    if (!calibrationFile) return;
+    const o200k = o200kTokens(text);
+    if (o200k < MIN_SAMPLE_TOKENS) return;
+
+    const saved = await loadSamples();
+    saved.push({ model, o200kTokens: o200k, tokens });
+    saved.splice(0, Math.max(0, saved.length - MAX_CALIBRATION_SAMPLES));
+    scheduleCalibrationWrite(calibrationFile);
+}
+
+export interface ContentEstimate {
+    tokens: number;
+    // ± tokens
+    margin: number;
+}
+
+// Running total of estimated tokens and their margin
+class Tally {
+    tokens = 0;
+    margin = 0;
+
+    constructor(private calibration: Calibration) {}
+
+    text(text: string) {
+        const tokens = o200kTokens(text) * this.calibration.ratio;
+        this.add(tokens, this.calibration.margin);
+    }
+
+    add(tokens: number, margin: number) {
+        this.tokens += tokens;
+        this.margin += tokens * margin;
+    }
+}
+
+// Count `/Type /Page` objects, which every page has (and `/Type /Pages`,
+// the page tree, doesn't match)
+function pdfPageCount(base64Content: string): number {
+    const source = Buffer.from(base64Content, 'base64').toString('latin1');
+    return Math.max(1, source.match(/\/Type\s*\/Page(?![a-z])/g)?.length ?? 0);
+}
+
+function tallyBlock(tally: Tally, block: ContentBlock) {
+    switch (block.type) {
+        case 'text':
+            tally.text(block.text);
+            break;
+        case 'image': {
+            const dimensions = block.source.type === 'base64'
+                ? readImageDimensions(new Uint8Array(Buffer.from(block.source.data, 'base64')))
+                : null;
+            tally.add(dimensions ? estimateImageTokens(dimensions).tokens : UNKNOWN_IMAGE_TOKENS, IMAGE_MARGIN);
+            break;
+        }
+        case 'document':
+            if (block.source.type === 'base64') {
+                tally.add(pdfPageCount(block.source.data) * PDF_TOKENS_PER_PAGE, PDF_MARGIN);
+            } else if (block.source.type === 'text') {
+                tally.text(block.source.data);
+            } else {
+                tally.text(JSON.stringify(block.source));
+            }
+            break;
+        case 'tool_result':
+            if (typeof block.content === 'string') {
+                tally.text(block.content);
+            } else {
+                block.content?.forEach(part => tallyBlock(tally, part as ContentBlock));
+            }
+            break;
+        default:
+            // tool_use and anything newer: count the block as JSON
+            tally.text(JSON.stringify(block));
+    }
+}
+
+// Estimate everything in a payload except the framing of a single user turn,
+// which the caller adds as it does for API counts
+export async function estimatePayloadContent(model: string, payload: CountPayload): Promise<ContentEstimate> {
+    const tally = new Tally(await getCalibration(model));
+
+    if (typeof payload.system === 'string') {
+        tally.text(payload.system);
+    } else {
+        payload.system?.forEach(block => tally.text(block.text));
+    }
+    if (payload.system) {
+        tally.add(TURN_FRAMING_TOKENS, FRAMING_MARGIN);
+    }
+    if (payload.tools?.length) {
+        tally.text(JSON.stringify(payload.tools));
+        tally.add(TOOL_USE_SYSTEM_TOKENS, FRAMING_MARGIN);
+    }
+    payload.messages.forEach((message, index) => {
+        if (index > 0) tally.add(TURN_FRAMING_TOKENS, FRAMING_MARGIN);
+        if (typeof message.content === 'string') {
+            tally.text(message.content);
+        } else {
+            message.content.forEach(block => tallyBlock(tally, block));
+        }
+    });
+
+    return { tokens: Math.round(tally.tokens), margin: Math.ceil(tally.margin) };
+}
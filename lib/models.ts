@@ -0,0 +1,91 @@
+// Model registry: the one place model IDs, limits and prices live. The API
+// routes read it directly and the UI loads it from GET /api/models.
+
+export interface ModelPricing {
+    // USD per million tokens
+    inputPerMTok: number;
+    outputPerMTok: number;
+    // 5-minute cache writes and cache hits
+    cacheWritePerMTok: number;
+    cacheReadPerMTok: number;
+    // Fraction taken off every price above for Message Batches requests
+    batchDiscount: number;
+}
+
+// Which tokenizer a model uses: the one introduced with Claude 3 (used up to
+// Opus 4.6) or the one Opus 4.7 introduced. Picks the calibration the local
+// estimator uses.
+export type TokenizerFamily = 'claude-3' | 'claude-opus-4-7';
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+    pricing: ModelPricing;
+    contextWindow: number;
+    maxOutputTokens: number;
+    // Shortest prefix the API will cache; shorter ones are billed as input
+    minCacheableTokens: number;
+    tokenizer: TokenizerFamily;
+    deprecated: boolean;
+    // Shown above the counts while this model is selected, e.g. when it
+    // tokenizes differently from the models before it
+    tokenizerNotice?: string;
+    // Comparison models the picker starts with when this is the default model
+    defaultComparisons?: string[];
+}
+
+// Non-Claude tokenizers we show alongside for comparison
+export interface ComparisonProviderInfo {
+    id: string;
+    name: string;
+    inputPricePerMTok: number;
+}
+
+// Standard Anthropic price ratios: cache writes cost 1.25x input, cache
+// reads 0.1x, and batch requests are half price
+const claudePricing = (inputPerMTok: number, outputPerMTok: number): ModelPricing => ({
+    inputPerMTok,
+    outputPerMTok,
+    cacheWritePerMTok: inputPerMTok * 1.25,
+    cacheReadPerMTok: inputPerMTok * 0.1,
+    batchDiscount: 0.5,
+});
+
+// Newest first; this is the order the model picker shows
+export const CLAUDE_MODELS: ModelInfo[] = [
+    { id: 'claude-opus-4-7', name: 'Claude Opus 4.7', pricing: claudePricing(15, 75), contextWindow: 200_000, maxOutputTokens: 128_000, minCacheableTokens: 4_096, tokenizer: 'claude-opus-4-7', deprecated: false,
+        tokenizerNotice: 'Claude Opus 4.7 uses a new tokenizer that typically produces more tokens for the same input than Opus 4.6 and earlier models.',
+        defaultComparisons: ['claude-opus-4-6'] },
+    { id: 'claude-opus-4-6', name: 'Claude Opus 4.6', pricing: claudePricing(15, 75), contextWindow: 200_000, maxOutputTokens: 128_000, minCacheableTokens: 4_096, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-sonnet-4-6', name: 'Claude Sonnet 4.6', pricing: claudePricing(3, 15), contextWindow: 200_000, maxOutputTokens: 64_000, minCacheableTokens: 2_048, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', pricing: claudePricing(3, 15), contextWindow: 200_000, maxOutputTokens: 64_000, minCacheableTokens: 1_024, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-opus-4-1-20250805', name: 'Claude Opus 4.1', pricing: claudePricing(15, 75), contextWindow: 200_000, maxOutputTokens: 32_000, minCacheableTokens: 1_024, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', pricing: claudePricing(1, 5), contextWindow: 200_000, maxOutputTokens: 64_000, minCacheableTokens: 4_096, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', pricing: claudePricing(3, 15), contextWindow: 200_000, maxOutputTokens: 64_000, minCacheableTokens: 1_024, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', pricing: claudePricing(15, 75), contextWindow: 200_000, maxOutputTokens: 32_000, minCacheableTokens: 1_024, tokenizer: 'claude-3', deprecated: false },
+    { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet', pricing: claudePricing(3, 15), contextWindow: 200_000, maxOutputTokens: 64_000, minCacheableTokens: 1_024, tokenizer: 'claude-3', deprecated: true },
+];
+
+export const COMPARISON_PROVIDERS: Record<'gpt4o' | 'gemini', ComparisonProviderInfo> = {
+    gpt4o: { id: 'gpt-4o', name: 'GPT-4o', inputPricePerMTok: 2.5 },
+    gemini: { id: 'gemini-2.5-flash', name: 'Gemini', inputPricePerMTok: 0.3 },
+};
+
+// Default model to use if none is provided
+export const DEFAULT_MODEL = 'claude-opus-4-7';
+
+export function getModel(id: string): ModelInfo | undefined {
+    return CLAUDE_MODELS.find(model => model.id === id);
+}
+
+// Every model ID in `ids` that isn't in the registry
+export function unknownModels(ids: (string | null | undefined)[]): string[] {
+    return ids.filter((id): id is string => !!id && !getModel(id));
+}
+
+// Shape served by GET /api/models
+export interface ModelRegistry {
+    defaultModel: string;
+    models: ModelInfo[];
+    comparisonProviders: typeof COMPARISON_PROVIDERS;
+}
@@ -0,0 +1,188 @@
+import { CLAUDE_MODELS, DEFAULT_MODEL } from '@/lib/models';
+import { ApiErrorCode } from '@/lib/apiErrors';
+
+// OpenAPI 3.1 description of the versioned API, served at
+// GET /api/v1/openapi.json. Keep it in step with the types in lib/apiV1.ts.
+
+const ERROR_CODES: ApiErrorCode[] = [
+    'invalid_request',
+    'invalid_json',
+    'invalid_model',
+    'unauthorized',
+    'unsupported_file_type',
+    'payload_too_large',
+    'rate_limited',
+    'upstream_auth',
+    'provider_unavailable',
+    'internal_error',
+];
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const rateLimitHeaders = {
+    'RateLimit-Limit': { description: 'Allowance spent back to back: one unit per request and one per uncached Claude count it makes', schema: { type: 'integer' } },
+    'RateLimit-Remaining': { description: 'Allowance left before throttling', schema: { type: 'integer' } },
+    'RateLimit-Reset': { description: 'Seconds until the allowance is full again', schema: { type: 'integer' } },
+    'RateLimit-Policy': { description: 'Burst size and refill window, e.g. `400;w=40`', schema: { type: 'string' } },
+};
+
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+export const openApiDocument = {
+    openapi: '3.1.0',
+    info: {
+        title: 'Token counter API',
+        version: '1.0.0',
+        description: 'Count Claude input tokens for plain text or a Messages API payload. ' +
+            'Counts come from the Anthropic token counting API, or a local estimate when it is unavailable.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+        '/count': {
+            post: {
+                operationId: 'countTokens',
+                summary: 'Count input tokens',
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/CountRequest' } } },
+                },
+                responses: {
+                    200: {
+                        description: 'Token counts',
+                        headers: rateLimitHeaders,
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/CountResponse' } } },
+                    },
+                    400: errorResponse('Invalid body, JSON or model (`invalid_request`, `invalid_json`, `invalid_model`)'),
+                    401: errorResponse('Missing or unknown API key (`unauthorized`)'),
+                    413: errorResponse('Body over the size limit (`payload_too_large`)'),
+                    429: {
+                        ...errorResponse('Rate limited (`rate_limited`), here or upstream'),
+                        headers: {
+                            ...rateLimitHeaders,
+                            'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } },
+                        },
+                    },
+                    500: errorResponse('Unexpected failure (`internal_error`)'),
+                    502: errorResponse('Anthropic rejected the server\'s API key (`upstream_auth`)'),
+                    503: errorResponse('The Anthropic API is unavailable (`provider_unavailable`)'),
+                },
+            },
+        },
+    },
+    components: {
+        securitySchemes: {
+            apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+            bearer: { type: 'http', scheme: 'bearer' },
+        },
+        schemas: {
+            CountRequest: {
+                type: 'object',
+                description: 'Either `text`, counted as a single user turn, or `messages` (with optional ' +
+                    '`system`, `tools`, `tool_choice` and `thinking`) as sent to the Messages API.',
+                properties: {
+                    model: {
+                        type: 'string',
+                        enum: CLAUDE_MODELS.map(model => model.id),
+                        default: DEFAULT_MODEL,
+                    },
+                    text: { type: 'string' },
+                    messages: { type: 'array', minItems: 1, items: { type: 'object' } },
+                    system: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'object' } }] },
+                    tools: { type: 'array', items: { type: 'object' } },
+                    tool_choice: { type: 'object' },
+                    thinking: { type: 'object' },
+                    models: {
+                        type: 'array',
+                        description: 'More models to count the same input with',
+                        items: { type: 'string', enum: CLAUDE_MODELS.map(model => model.id) },
+                    },
+                    comparisons: {
+                        type: 'boolean',
+                        default: true,
+                        description: 'Also count plain text with GPT-4o and Gemini',
+                    },
+                },
+            },
+            CountResponse: {
+                type: 'object',
+                required: [
+                    'model', 'input_tokens', 'framing_tokens', 'content_tokens', 'estimated',
+                    'margin', 'cached', 'characters', 'models', 'comparisons',
+                ],
+                properties: {
+                    model: { type: 'string' },
+                    input_tokens: { type: 'integer', description: 'Tokens for the request as sent' },
+                    framing_tokens: {
+                        type: 'integer',
+                        description: 'Tokens the user turn around plain text adds; 0 for `messages`',
+                    },
+                    content_tokens: { type: 'integer', description: '`input_tokens` less `framing_tokens`' },
+                    estimated: { type: 'boolean', description: 'Whether `input_tokens` is a local estimate' },
+                    margin: { ...nullable('number'), description: '± tokens on an estimate' },
+                    cached: { type: 'boolean' },
+                    characters: { ...nullable('integer'), description: 'Length of `text`; null for `messages`' },
+                    models: { type: 'array', items: { $ref: '#/components/schemas/ModelCount' } },
+                    comparisons: {
+                        oneOf: [
+                            {
+                                type: 'object',
+                                required: ['gpt4o', 'gemini'],
+                                properties: {
+                                    gpt4o: { $ref: '#/components/schemas/ComparisonCount' },
+                                    gemini: { $ref: '#/components/schemas/ComparisonCount' },
+                                },
+                            },
+                            { type: 'null' },
+                        ],
+                    },
+                },
+            },
+            ModelCount: {
+                type: 'object',
+                required: ['model', 'input_tokens', 'estimated', 'margin', 'cached', 'error'],
+                properties: {
+                    model: { type: 'string' },
+                    input_tokens: nullable('integer'),
+                    estimated: { type: 'boolean' },
+                    margin: nullable('number'),
+                    cached: { type: 'boolean' },
+                    error: nullable('string'),
+                },
+            },
+            ComparisonCount: {
+                type: 'object',
+                required: ['tokens', 'cached', 'error'],
+                properties: {
+                    tokens: nullable('integer'),
+                    cached: { type: 'boolean' },
+                    error: {
+                        oneOf: [
+                            {
+                                type: 'object',
+                                required: ['code', 'message'],
+                                properties: {
+                                    code: { type: 'string', enum: ERROR_CODES },
+                                    message: { type: 'string' },
+                                },
+                            },
+                            { type: 'null' },
+                        ],
+                    },
+                },
+            },
+            Error: {
+                type: 'object',
+                required: ['error', 'code'],
+                properties: {
+                    error: { type: 'string', description: 'Human-readable; may change' },
+                    code: { type: 'string', enum: ERROR_CODES },
+                    retryAfter: { type: 'integer', description: 'Seconds to wait, on `rate_limited`' },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,179 @@
+import { PDFDocument, EncryptedPDFError } from 'pdf-lib';
+import {
+    PDF_BETAS,
+    pdfPayload,
+    countClaudeTokensInParts,
+    estimateFields,
+} from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+// Limits the API puts on a single PDF request
+export const PDF_MAX_PAGES_PER_REQUEST = 100;
+// 32 MB per request, less the base64 overhead and some headroom
+const PDF_MAX_PART_BYTES = 20 * 1024 * 1024;
+
+// Upper bound on pages counted one by one for the breakdown
+export const MAX_PDF_BREAKDOWN_PAGES = 500;
+
+// How many pages or ranges are counted at once
+const PDF_PAGE_CONCURRENCY = 4;
+
+// Thrown for PDFs we can't open or page ranges that don't fit the document
+export class PdfError extends Error {}
+
+export interface PageRange {
+    start: number;
+    end: number;
+}
+
+export interface PdfPageCount {
+    page: number;
+    bytes: number;
+    tokens: number | null;
+    cached?: boolean;
+    estimated?: true;
+    margin?: number;
+    error?: string;
+}
+
+export interface PdfRangeCount extends PageRange {
+    tokens: number | null;
+    cached?: boolean;
+    estimated?: true;
+    margin?: number;
+    error?: string;
+}
+
+export interface PdfBreakdown {
+    pageCount: number;
+    // Whether only the first MAX_PDF_BREAKDOWN_PAGES pages were counted
+    truncated: boolean;
+    // Null unless per-page counts were asked for
+    pages: PdfPageCount[] | null;
+    ranges: PdfRangeCount[];
+}
+
+export async function loadPdf(content: Uint8Array): Promise<PDFDocument> {
+    try {
+        return await PDFDocument.load(content);
+    } catch (error) {
+        if (error instanceof EncryptedPDFError) {
+            throw new PdfError('Encrypted PDFs can\'t be counted');
+        }
+        throw new PdfError('Could not read the PDF');
+    }
+}
+
+// Copy the given 0-based pages out into a document of their own
+async function extractPages(source: PDFDocument, indices: number[]): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    const pages = await doc.copyPages(source, indices);
+    pages.forEach(page => doc.addPage(page));
+    return doc.save();
+}
+
+const toBase64 = (content: Uint8Array) => Buffer.from(content).toString('base64');
+
+const pageIndices = (start: number, end: number) =>
+    Array.from({ length: end - start + 1 }, (_, i) => start - 1 + i);
+
+// Parse "1-5, 8, 10-12" into 1-based inclusive ranges
+export function parsePageRanges(spec: string, pageCount: number): PageRange[] {
+    return spec.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+        const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+        if (!match) {
+            throw new PdfError(`Invalid page range "${part}"; use e.g. 1-5, 8`);
+        }
+        const start = Number(match[1]);
+        const end = match[2] ? Number(match[2]) : start;
+        if (start < 1 || end < start || end > pageCount) {
+            throw new PdfError(`Page range "${part}" is outside pages 1-${pageCount}`);
+        }
+        return { start, end };
+    });
+}
+
+// Extract pages [start, end] as documents that each fit one request: at
+// most PDF_MAX_PAGES_PER_REQUEST pages, halved until under the size limit. A
+// single page that's still too big goes out as-is and fails on its own.
+async function extractParts(source: PDFDocument, start: number, end: number): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [];
+    const split = async (from: number, to: number) => {
+        const content = await extractPages(source, pageIndices(from, to));
+        if (content.length > PDF_MAX_PART_BYTES && to > from) {
+            const middle = Math.floor((from + to) / 2);
+            await split(from, middle);
+            await split(middle + 1, to);
+            return;
+        }
+        parts.push(content);
+    };
+    for (let from = start; from <= end; from += PDF_MAX_PAGES_PER_REQUEST) {
+        await split(from, Math.min(end, from + PDF_MAX_PAGES_PER_REQUEST - 1));
+    }
+    return parts;
+}
+
+// Split a PDF that's over the per-request page or size limits into parts
+// that fit, as base64. Returns null when the whole document fits in one
+// request.
+export async function splitOversizedPdf(source: PDFDocument, size: number): Promise<string[] | null> {
+    const pageCount = source.getPageCount();
+    if (pageCount <= PDF_MAX_PAGES_PER_REQUEST && size <= PDF_MAX_PART_BYTES) return null;
+
+    const parts = await extractParts(source, 1, pageCount);
+    return parts.map(toBase64);
+}
+
+// Count pages [start, end] as a document of their own (in parts, past the
+// page or size limit), less the user-turn framing so pages and ranges add up
+// to document content
+async function countPages(model: string, source: PDFDocument, start: number, end: number) {
+    const parts = await extractParts(source, start, end);
+    const bytes = parts.reduce((sum, part) => sum + part.length, 0);
+    try {
+        const count = await countClaudeTokensInParts(model, parts.map(part => pdfPayload(toBase64(part))), PDF_BETAS);
+        return {
+            bytes,
+            tokens: Math.max(0, count.input_tokens - USER_TURN_FRAMING_TOKENS),
+            cached: count.cached,
+            ...estimateFields(count)
+        };
+    } catch (error) {
+        console.error(`Token counting error for PDF pages ${start}-${end}:`, error);
+        return {
+            bytes,
+            tokens: null,
+            error: error instanceof Error ? error.message : 'Failed to count tokens'
+        };
+    }
+}
+
+// Count every page on its own when `perPage` is set, plus any requested
+// ranges, which only take the pages they cover. Each page is sent as a
+// one-page PDF, so its count includes the page image as well as its text.
+export async function countPdfPages(model: string, source: PDFDocument, perPage: boolean, ranges: PageRange[] = []): Promise<PdfBreakdown> {
+    const pageCount = source.getPageCount();
+    const countedPages = Math.min(pageCount, MAX_PDF_BREAKDOWN_PAGES);
+
+    const [pages, rangeCounts] = await Promise.all([
+        perPage
+            ? mapWithConcurrency(pageIndices(1, countedPages), PDF_PAGE_CONCURRENCY, async (index) => ({
+                page: index + 1,
+                ...await countPages(model, source, index + 1, index + 1)
+            }))
+            : Promise.resolve(null),
+        mapWithConcurrency(ranges, PDF_PAGE_CONCURRENCY, async (range) => {
+            const { bytes: _bytes, ...count } = await countPages(model, source, range.start, range.end);
+            return { ...range, ...count };
+        })
+    ]);
+
+    return {
+        pageCount,
+        truncated: perPage && countedPages < pageCount,
+        pages,
+        ranges: rangeCounts,
+    };
+}
@@ -0,0 +1,167 @@
+import { ClaudeCount, countClaudeTokens, textPayload } from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+// How many countTokens calls a single diff may have in flight
+const DIFF_CONCURRENCY = 4;
+
+// Unchanged lines shown around each change, as in a unified diff
+const CONTEXT_LINES = 3;
+
+// Hunks beyond this many are listed but not counted
+export const MAX_COUNTED_HUNKS = 40;
+
+// Largest line-by-line comparison table we'll build; bigger edits are shown
+// as the whole changed region replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface DiffLine {
+    kind: 'context' | 'added' | 'removed';
+    text: string;
+}
+
+export interface DiffHunk {
+    // 1-based first line and line count on each side, as in `@@ -a,b +c,d @@`
+    beforeStart: number;
+    beforeLines: number;
+    afterStart: number;
+    afterLines: number;
+    lines: DiffLine[];
+    // Tokens this hunk adds to "before" on its own (negative when it removes
+    // tokens); null past MAX_COUNTED_HUNKS
+    tokenDelta: number | null;
+}
+
+export interface PromptDiff {
+    model: string;
+    hunks: DiffHunk[];
+    // Whether any count involved is a local estimate
+    estimated: boolean;
+}
+
+type Op = { kind: DiffLine['kind']; before: number; after: number };
+
+// Line-level edit script between two texts: the longest common subsequence
+// of lines, with the common prefix and suffix trimmed off first
+function diffOps(before: string[], after: string[]): Op[] {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix && suffix < after.length - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) suffix++;
+
+    const ops: Op[] = [];
+    for (let i = 0; i < prefix; i++) ops.push({ kind: 'context', before: i, after: i });
+
+    const n = before.length - prefix - suffix;
+    const m = after.length - prefix - suffix;
+    if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+        for (let i = 0; i < n; i++) ops.push({ kind: 'removed', before: prefix + i, after: prefix });
+        for (let j = 0; j < m; j++) ops.push({ kind: 'added', before: prefix + n, after: prefix + j });
+    } else {
+        // lengths[i * (m + 1) + j]: LCS length of the middles from i and j on
+        const lengths = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * (m + 1) + j] = before[prefix + i] === after[prefix + j]
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && before[prefix + i] === after[prefix + j]) {
+                ops.push({ kind: 'context', before: prefix + i++, after: prefix + j++ });
+            } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+                // Removals before additions, as diff tools list them
+                ops.push({ kind: 'removed', before: prefix + i++, after: prefix + j });
+            } else {
+                ops.push({ kind: 'added', before: prefix + i, after: prefix + j++ });
+            }
+        }
+    }
+
+    for (let k = suffix; k > 0; k--) {
+        ops.push({ kind: 'context', before: before.length - k, after: after.length - k });
+    }
+    return ops;
+}
+
+// Group the edit script into hunks of changes with CONTEXT_LINES of
+// unchanged lines around them, merging hunks whose context would overlap
+function groupHunks(ops: Op[], before: string[], after: string[]): Omit<DiffHunk, 'tokenDelta'>[] {
+    const changed = ops.flatMap((op, index) => op.kind === 'context' ? [] : [index]);
+    const ranges: [number, number][] = [];
+    changed.forEach(index => {
+        const start = Math.max(0, index - CONTEXT_LINES);
+        const end = Math.min(ops.length, index + CONTEXT_LINES + 1);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            ranges.push([start, end]);
+        }
+    });
+
+    return ranges.map(([start, end]) => {
+        const slice = ops.slice(start, end);
+        return {
+            beforeStart: slice[0].before + 1,
+            beforeLines: slice.filter(op => op.kind !== 'added').length,
+            afterStart: slice[0].after + 1,
+            afterLines: slice.filter(op => op.kind !== 'removed').length,
+            lines: slice.map(op => ({
+                kind: op.kind,
+                text: op.kind === 'added' ? after[op.after] : before[op.before],
+            })),
+        };
+    });
+}
+
+// "before" with just one hunk applied
+function applyHunk(before: string[], hunk: Omit<DiffHunk, 'tokenDelta'>): string {
+    const replacement = hunk.lines.filter(line => line.kind !== 'removed').map(line => line.text);
+    const start = hunk.beforeStart - 1;
+    return [
+        ...before.slice(0, start),
+        ...replacement,
+        ...before.slice(start + hunk.beforeLines),
+    ].join('\n');
+}
+
+// Diff two versions of a prompt line by line and count what each hunk adds.
+// Tokens don't add up across edits (a change can merge or split tokens at its
+// edges), so each hunk is measured as "before" with only that hunk applied,
+// the way toolAnalysis measures each tool against the full set.
+export async function diffPrompt(beforeText: string, afterText: string, model: string): Promise<PromptDiff> {
+    // An empty text has no lines, not one empty line
+    const splitLines = (text: string) => text === '' ? [] : text.split('\n');
+    const before = splitLines(beforeText);
+    const after = splitLines(afterText);
+    const hunks = groupHunks(diffOps(before, after), before, after);
+    if (hunks.length === 0) return { model, hunks: [], estimated: false };
+
+    // "before" and a single hunk's "after" are what POST /api counts for the
+    // two panes, so those usually come straight from the result cache. The
+    // API rejects empty content, so an empty text is taken as the turn
+    // framing alone, which keeps its deltas to the content.
+    const count = (text: string): Promise<ClaudeCount> => text.trim()
+        ? countClaudeTokens(model, textPayload(text))
+        : Promise.resolve({ input_tokens: USER_TURN_FRAMING_TOKENS, cached: false });
+    const [base, counts] = await Promise.all([
+        count(beforeText),
+        mapWithConcurrency(hunks.slice(0, MAX_COUNTED_HUNKS), DIFF_CONCURRENCY, hunk => count(applyHunk(before, hunk))),
+    ]);
+
+    return {
+        model,
+        hunks: hunks.map((hunk, index) => ({
+            ...hunk,
+            tokenDelta: index < counts.length ? counts[index].input_tokens - base.input_tokens : null,
+        })),
+        estimated: !!base.estimated || counts.some(c => c.estimated),
+    };
+}
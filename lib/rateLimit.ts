@@ -0,0 +1,193 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ApiKey } from '@/lib/apiKeys';
+import { ApiError, errorResponse } from '@/lib/apiErrors';
+
+// Per-client token buckets for the routes that call the counting API. Every
+// request takes one token, and so does every uncached call it makes to the
+// Anthropic API, so a request that fans out into hundreds of counts pays for
+// them. Buckets refill at a steady rate up to a burst capacity.
+
+// A bucket as last seen: how many tokens it held and when
+export interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+// Where bucket state lives. Implement this to share limits across processes
+// (Redis, ...) and install it with `setRateLimitStore`. Reads and writes
+// aren't atomic, so concurrent requests from one client can occasionally
+// both get the last token.
+export interface RateLimitStore {
+    get(key: string): Promise<BucketState | undefined>;
+    set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+}
+
+// How often the memory store sweeps out idle buckets
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Default store: a per-process map, swept of idle buckets now and then as
+// it's written
+export class MemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, BucketState & { expiresAt: number }>();
+    private nextSweepAt = 0;
+
+    async get(key: string) {
+        const bucket = this.buckets.get(key);
+        if (!bucket || bucket.expiresAt <= Date.now()) return undefined;
+        return { tokens: bucket.tokens, updatedAt: bucket.updatedAt };
+    }
+
+    async set(key: string, state: BucketState, ttlMs: number) {
+        const now = Date.now();
+        this.buckets.set(key, { ...state, expiresAt: now + ttlMs });
+        if (now < this.nextSweepAt) return;
+        this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+        this.buckets.forEach((bucket, bucketKey) => {
+            if (bucket.expiresAt <= now) this.buckets.delete(bucketKey);
+        });
+    }
+}
+
+export interface RateLimitConfig {
+    // Sustained tokens per minute
+    perMinute: number;
+    // Most tokens spent back to back
+    burst: number;
+}
+
+// Configured from the environment:
+//   RATE_LIMIT=on (default) | off
+//   TRUST_PROXY=<n> when n proxies in front of the app set x-forwarded-for
+//   RATE_LIMIT_PER_MINUTE (default 600), RATE_LIMIT_BURST (default 400)
+// The default burst covers the largest single token inspection.
+const config: RateLimitConfig = {
+    perMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 600,
+    burst: Number(process.env.RATE_LIMIT_BURST) || 400,
+};
+
+let store: RateLimitStore | null = process.env.RATE_LIMIT === 'off' ? null : new MemoryRateLimitStore();
+
+// Swap in a different store, or pass null to turn rate limiting off
+export function setRateLimitStore(next: RateLimitStore | null) {
+    store = next;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    // Seconds until the bucket is full again
+    resetSeconds: number;
+    // Seconds until the next token is available; 0 when allowed now
+    retryAfterSeconds: number;
+    // Seconds it takes to refill from empty, for RateLimit-Policy
+    windowSeconds: number;
+}
+
+// How many proxies in front of the app append to x-forwarded-for. Unset,
+// the app faces clients directly and server.mjs drops the forwarding headers
+// they send, so the only entry left is the socket address Next fills in.
+const trustedProxies = Math.max(0, Math.floor(Number(process.env.TRUST_PROXY) || 0));
+
+// Who a request counts against: the API key `authenticate` accepted for it,
+// otherwise its IP address. Unchecked keys are ignored, or a client could
+// send a new one with every request to get a fresh bucket; for the same
+// reason only the x-forwarded-for entries trusted proxies added are used.
+export function clientKey(req: Request & { ip?: string }, apiKey: ApiKey | null = null): string {
+    if (apiKey) {
+        return `key:${apiKey.sha256.toLowerCase()}`;
+    }
+    const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean);
+    // Each trusted proxy appends the address it saw; entries further left
+    // are whatever the client claimed
+    const ip = req.ip || forwarded[Math.max(0, forwarded.length - Math.max(1, trustedProxies))] || 'unknown';
+    return `ip:${ip}`;
+}
+
+// Take `cost` tokens from the client's bucket. Returns null, letting the
+// request through, when rate limiting is off or the store fails.
+export async function checkRateLimit(key: string, limits: RateLimitConfig = config, cost = 1): Promise<RateLimitResult | null> {
+    if (!store) return null;
+
+    const perMs = limits.perMinute / 60_000;
+    const windowMs = limits.burst / perMs;
+    const now = Date.now();
+
+    let previous: BucketState | undefined;
+    try {
+        previous = await store.get(key);
+    } catch (error) {
+        console.error('Rate limit store read error:', error);
+        return null;
+    }
+
+    const available = previous
+        ? Math.min(limits.burst, previous.tokens + (now - previous.updatedAt) * perMs)
+        : limits.burst;
+    const allowed = available >= Math.max(1, cost);
+    const tokens = allowed ? available - cost : available;
+
+    try {
+        await store.set(key, { tokens, updatedAt: now }, windowMs);
+    } catch (error) {
+        console.error('Rate limit store write error:', error);
+    }
+
+    return {
+        allowed,
+        limit: limits.burst,
+        remaining: Math.floor(tokens),
+        resetSeconds: Math.ceil((limits.burst - tokens) / perMs / 1000),
+        retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / perMs / 1000),
+        windowSeconds: Math.ceil(windowMs / 1000),
+    };
+}
+
+// Add the IETF draft RateLimit-* headers (and Retry-After on a rejection)
+export function withRateLimitHeaders(response: Response, result: RateLimitResult | null): Response {
+    if (!result) return response;
+    response.headers.set('RateLimit-Limit', String(result.limit));
+    response.headers.set('RateLimit-Remaining', String(result.remaining));
+    response.headers.set('RateLimit-Reset', String(result.resetSeconds));
+    response.headers.set('RateLimit-Policy', `${result.limit};w=${result.windowSeconds}`);
+    if (!result.allowed) {
+        response.headers.set('Retry-After', String(result.retryAfterSeconds));
+    }
+    return response;
+}
+
+const rateLimitedError = (limit: RateLimitResult) =>
+    new ApiError('rate_limited', `Too many requests; try again in ${limit.retryAfterSeconds} seconds`, limit.retryAfterSeconds);
+
+// The bucket key of the request being handled, for charging its upstream calls
+const currentClient = new AsyncLocalStorage<string>();
+
+// Run a route's handler once the client's bucket lets the request through;
+// otherwise answer `rate_limited`. Either way the response gets the headers,
+// with what's left after the handler's own upstream calls.
+export async function withRateLimit(req: Request & { ip?: string }, handler: () => Promise<Response>, apiKey: ApiKey | null = null): Promise<Response> {
+    const key = clientKey(req, apiKey);
+    const limit = await checkRateLimit(key);
+    if (limit && !limit.allowed) {
+        return withRateLimitHeaders(errorResponse(rateLimitedError(limit)), limit);
+    }
+    const response = await currentClient.run(key, handler);
+    // Peek at the bucket without spending from it
+    const left = limit && await checkRateLimit(key, config, 0);
+    return withRateLimitHeaders(response, left && { ...left, allowed: true, retryAfterSeconds: 0 });
+}
+
+// Take a token for a call to the Anthropic API made on behalf of the current
+// request, throwing `rate_limited` once its client has run out. Calls made
+// outside withRateLimit aren't charged.
+export async function chargeUpstreamCall(): Promise<void> {
+    const key = currentClient.getStore();
+    if (key === undefined) return;
+    const limit = await checkRateLimit(key);
+    if (limit && !limit.allowed) {
+        throw rateLimitedError(limit);
+    }
+}
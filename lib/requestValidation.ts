@@ -0,0 +1,311 @@
+import { ApiError } from '@/lib/apiErrors';
+
+// Validation and size limits for POST /api bodies, applied before anything
+// is counted
+
+const MB = 1024 * 1024;
+
+// `fileType` values the client may send; 'unknown' files are counted as text
+export const FILE_TYPES = ['image', 'pdf', 'text', 'document', 'archive', 'unknown'] as const;
+export type FileType = typeof FILE_TYPES[number];
+
+const envBytes = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Largest upload accepted per file type, overridable with e.g.
+// MAX_PDF_UPLOAD_BYTES. PDFs and archives are split or unpacked before
+// counting, so they can be far bigger than one API request.
+export const UPLOAD_LIMITS: Record<FileType, number> = {
+    text: envBytes('MAX_TEXT_UPLOAD_BYTES', 10 * MB),
+    unknown: envBytes('MAX_TEXT_UPLOAD_BYTES', 10 * MB),
+    document: envBytes('MAX_DOCUMENT_UPLOAD_BYTES', 25 * MB),
+    image: envBytes('MAX_IMAGE_UPLOAD_BYTES', 20 * MB),
+    pdf: envBytes('MAX_PDF_UPLOAD_BYTES', 100 * MB),
+    archive: envBytes('MAX_ARCHIVE_UPLOAD_BYTES', 100 * MB),
+};
+
+// Caps on the request as a whole, checked while the body streams in
+export const MAX_JSON_BODY_BYTES = envBytes('MAX_JSON_BODY_BYTES', 10 * MB);
+export const MAX_MULTIPART_BODY_BYTES = envBytes('MAX_MULTIPART_BODY_BYTES', 128 * MB);
+
+// Most files accepted in one multipart upload
+export const MAX_UPLOAD_FILES = 50;
+
+const formatMB = (bytes: number) => `${Math.round((bytes / MB) * 10) / 10} MB`;
+
+// Read a request body, giving up as soon as it passes `limit` bytes rather
+// than buffering all of an oversized upload first. `inspect` sees the body
+// received so far after every chunk and can throw to stop reading.
+export async function readLimitedBody(req: Request, limit: number, inspect?: (received: Uint8Array) => void): Promise<Uint8Array> {
+    const declared = Number(req.headers.get('content-length'));
+    if (declared > limit) {
+        throw new ApiError('payload_too_large', `Request body is over the ${formatMB(limit)} limit`);
+    }
+    if (!req.body) return new Uint8Array();
+
+    const reader = req.body.getReader();
+    // Content-Length only sizes the first buffer up to a point, as it can lie
+    let body = new Uint8Array(declared > 0 ? Math.min(declared, MB) : 64 * 1024);
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (total + value.length > limit) {
+            await reader.cancel();
+            throw new ApiError('payload_too_large', `Request body is over the ${formatMB(limit)} limit`);
+        }
+        if (total + value.length > body.length) {
+            const grown = new Uint8Array(Math.min(limit, Math.max(body.length * 2, total + value.length)));
+            grown.set(body.subarray(0, total));
+            body = grown;
+        }
+        body.set(value, total);
+        total += value.length;
+        if (inspect) {
+            try {
+                inspect(body.subarray(0, total));
+            } catch (error) {
+                await reader.cancel();
+                throw error;
+            }
+        }
+    }
+    return body.subarray(0, total);
+}
+
+// Largest upload of any type, for a file whose type isn't known yet
+const MAX_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_LIMITS));
+
+// Longest part header block we'll wait for before calling the body malformed
+const MAX_PART_HEADER_BYTES = 16 * 1024;
+
+// Follow a multipart body's parts as it streams in, so a file over its
+// type's limit is turned away without buffering the rest of the request.
+// The nth `fileType` field applies to the nth file; a file whose type hasn't
+// arrived yet is held to the largest limit, and parseCountForm checks it
+// again once its type is known.
+function multipartSizeGuard(contentType: string): (received: Uint8Array) => void {
+    const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i)?.slice(1).find(Boolean);
+    if (!boundary) {
+        throw invalid('Multipart body has no boundary');
+    }
+    const opening = Buffer.from(`--${boundary}`);
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+    const decoder = new TextDecoder();
+
+    const fileTypes: string[] = [];
+    let fileCount = 0;
+    // Where the next part's headers start, once the opening boundary is in
+    let headersAt: number | null = null;
+    // The part being received: where its content starts and what it is
+    let part: { start: number; name: string | null; fileName: string | null; limit: number } | null = null;
+    // Where to resume looking for the delimiter that ends the part
+    let scanFrom = 0;
+    let finished = false;
+
+    return (received) => {
+        const body = Buffer.from(received.buffer, received.byteOffset, received.length);
+        while (!finished) {
+            if (part) {
+                const end = body.indexOf(delimiter, Math.max(scanFrom, part.start));
+                const size = (end === -1 ? body.length : end) - part.start;
+                if (part.fileName !== null && size > part.limit) {
+                    const fileType = fileTypes[fileCount - 1];
+                    throw new ApiError('payload_too_large', fileType
+                        ? `${part.fileName} is over the ${formatMB(part.limit)} limit for ${fileType} files`
+                        : `${part.fileName} is over the ${formatMB(part.limit)} upload limit`);
+                }
+                if (end === -1) {
+                    scanFrom = Math.max(part.start, body.length - delimiter.length + 1);
+                    return;
+                }
+                if (part.name === 'fileType' && part.fileName === null) {
+                    fileTypes.push(decoder.decode(body.subarray(part.start, end)));
+                }
+                headersAt = end + delimiter.length;
+                part = null;
+            } else if (headersAt === null) {
+                const start = body.indexOf(opening);
+                if (start === -1) return;
+                headersAt = start + opening.length;
+            } else {
+                if (body.length < headersAt + 2) return;
+                // `--` after a boundary closes the body
+                if (body[headersAt] === 0x2d && body[headersAt + 1] === 0x2d) {
+                    finished = true;
+                    return;
+                }
+                const headersEnd = body.indexOf('\r\n\r\n', headersAt);
+                if (headersEnd === -1) {
+                    if (body.length - headersAt > MAX_PART_HEADER_BYTES) {
+                        throw invalid('Could not parse the multipart form body');
+                    }
+                    return;
+                }
+                const disposition = decoder.decode(body.subarray(headersAt, headersEnd))
+                    .match(/content-disposition:[^\r\n]*/i)?.[0] ?? '';
+                const name = disposition.match(/;\s*name="([^"]*)"/i)?.[1] ?? null;
+                const fileName = disposition.match(/;\s*filename="([^"]*)"/i)?.[1] ?? null;
+                let limit = MAX_UPLOAD_BYTES;
+                if (fileName !== null) {
+                    const fileType = fileTypes[fileCount++];
+                    if (fileType && fileType in UPLOAD_LIMITS) {
+                        limit = UPLOAD_LIMITS[fileType as FileType];
+                    }
+                }
+                part = { start: headersEnd + 4, name, fileName, limit };
+                scanFrom = part.start;
+            }
+        }
+    };
+}
+
+const invalid = (message: string) => new ApiError('invalid_request', message);
+
+// The JSON body's own fields; a Messages payload alongside them is checked
+// by parseMessagesPayload
+export interface CountJsonBody {
+    text?: string;
+    model?: string;
+    // Claude models to count alongside `model`; `comparisonModel` is the
+    // single-model form older clients send
+    comparisonModels?: string[];
+    comparisonModel?: string | null;
+    models?: string[];
+    [field: string]: unknown;
+}
+
+// Parse and check a JSON body. Malformed JSON throws a SyntaxError, which
+// the route reports as `invalid_json`.
+export async function parseJsonBody(req: Request): Promise<CountJsonBody> {
+    const body = await readLimitedBody(req, MAX_JSON_BODY_BYTES);
+    const data: unknown = JSON.parse(new TextDecoder().decode(body));
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw invalid('Request body must be a JSON object');
+    }
+    const fields = data as Record<string, unknown>;
+    if (fields.text !== undefined && typeof fields.text !== 'string') {
+        throw invalid('`text` must be a string');
+    }
+    if (fields.model !== undefined && typeof fields.model !== 'string') {
+        throw invalid('`model` must be a model ID string');
+    }
+    if (fields.comparisonModel !== undefined && fields.comparisonModel !== null && typeof fields.comparisonModel !== 'string') {
+        throw invalid('`comparisonModel` must be a model ID string or null');
+    }
+    if (fields.comparisonModels !== undefined && (!Array.isArray(fields.comparisonModels) || !fields.comparisonModels.every(m => typeof m === 'string'))) {
+        throw invalid('`comparisonModels` must be an array of model IDs');
+    }
+    if (fields.models !== undefined && (!Array.isArray(fields.models) || !fields.models.every(m => typeof m === 'string'))) {
+        throw invalid('`models` must be an array of model IDs');
+    }
+    return fields as CountJsonBody;
+}
+
+// The multipart body's fields, checked and typed
+export interface CountForm {
+    files: File[];
+    fileTypes: FileType[];
+    model: string | null;
+    comparisonModels: string[];
+    models: string[];
+    top: number | null;
+    exclude: string[];
+    format: 'prompt' | null;
+    pages: boolean;
+    pageRanges: string;
+    downscale: boolean;
+}
+
+const stringField = (formData: FormData, name: string): string | null => {
+    const value = formData.get(name);
+    if (value === null) return null;
+    if (typeof value !== 'string') {
+        throw invalid(`\`${name}\` must be a text field`);
+    }
+    return value;
+};
+
+const stringFields = (formData: FormData, name: string): string[] => {
+    const values = formData.getAll(name);
+    if (!values.every((value): value is string => typeof value === 'string')) {
+        throw invalid(`\`${name}\` must be text fields`);
+    }
+    return values;
+};
+
+const booleanField = (formData: FormData, name: string): boolean => {
+    const value = stringField(formData, name);
+    if (value !== null && value !== 'true' && value !== 'false') {
+        throw invalid(`\`${name}\` must be "true" or "false"`);
+    }
+    return value === 'true';
+};
+
+// Parse and check a multipart body: every `file` needs a known `fileType`
+// next to it and has to fit that type's size limit. Limits are applied as
+// the body streams in when each `fileType` comes before its file.
+export async function parseCountForm(req: Request, contentType: string): Promise<CountForm> {
+    const body = await readLimitedBody(req, MAX_MULTIPART_BODY_BYTES, multipartSizeGuard(contentType));
+    let formData: FormData;
+    try {
+        formData = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+    } catch {
+        throw invalid('Could not parse the multipart form body');
+    }
+
+    const files = formData.getAll('file');
+    if (files.length === 0) {
+        throw invalid('Upload at least one `file`');
+    }
+    if (!files.every((file): file is File => typeof file !== 'string')) {
+        throw invalid('`file` fields must be file uploads');
+    }
+    if (files.length > MAX_UPLOAD_FILES) {
+        throw invalid(`Upload at most ${MAX_UPLOAD_FILES} files at once`);
+    }
+
+    const fileTypes = stringFields(formData, 'fileType');
+    if (fileTypes.length !== files.length) {
+        throw invalid('Send one `fileType` per `file`');
+    }
+    const badType = fileTypes.find(fileType => !(FILE_TYPES as readonly string[]).includes(fileType));
+    if (badType !== undefined) {
+        throw new ApiError('unsupported_file_type', `Unsupported file type "${badType}"`);
+    }
+    files.forEach((file, i) => {
+        const limit = UPLOAD_LIMITS[fileTypes[i] as FileType];
+        if (file.size > limit) {
+            throw new ApiError('payload_too_large', `${file.name} is over the ${formatMB(limit)} limit for ${fileTypes[i]} files`);
+        }
+    });
+
+    const top = stringField(formData, 'top');
+    if (top !== null && !/^[1-9]\d*$/.test(top)) {
+        throw invalid('`top` must be a positive integer');
+    }
+    const format = stringField(formData, 'format');
+    if (format !== null && format !== 'prompt') {
+        throw invalid('`format` must be "prompt" when given');
+    }
+
+    return {
+        files,
+        fileTypes: fileTypes as FileType[],
+        model: stringField(formData, 'model') || null,
+        comparisonModels: [
+            ...stringFields(formData, 'comparisonModels'),
+            ...stringFields(formData, 'comparisonModel'),
+        ].filter(Boolean),
+        models: stringFields(formData, 'models'),
+        top: top !== null ? Number(top) : null,
+        exclude: stringFields(formData, 'exclude'),
+        format: format === 'prompt' ? format : null,
+        pages: booleanField(formData, 'pages'),
+        pageRanges: stringField(formData, 'pageRanges') ?? '',
+        downscale: booleanField(formData, 'downscale'),
+    };
+}
@@ -0,0 +1,364 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { encodingForModel } from 'js-tiktoken';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { MessageCountTokensParams } from '@anthropic-ai/sdk/resources/beta/messages/messages';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { withCache } from '@/lib/cache';
+import { COMPARISON_PROVIDERS } from '@/lib/models';
+import { estimatePayloadContent, recordCalibrationSample } from '@/lib/localEstimate';
+import { ProviderError, providerError } from '@/lib/apiErrors';
+import { chargeUpstreamCall } from '@/lib/rateLimit';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+
+// Without an Anthropic key every Claude count is a local estimate
+if (!process.env.ANTHROPIC_API_KEY) {
+    console.warn('ANTHROPIC_API_KEY not found - Claude token counts will be local estimates');
+}
+
+if (!process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY not found - Gemini token counting will be disabled');
+}
+
+// Beta flags sent with every countTokens call, plus the extra one PDFs need
+export const TOKEN_COUNTING_BETAS = ["token-counting-2024-11-01"];
+export const PDF_BETAS = ["token-counting-2024-11-01", "pdfs-2024-09-25"];
+
+// Extended thinking settings, passed through to the API as-is. The SDK
+// version we use doesn't type this field yet.
+export type ThinkingConfig =
+    | { type: 'enabled'; budget_tokens: number }
+    | { type: 'disabled' };
+
+// The parts of a Messages API request that contribute to the input token count
+export type CountPayload = Pick<MessageCountTokensParams, 'messages' | 'system' | 'tools' | 'tool_choice'> & {
+    thinking?: ThinkingConfig;
+};
+
+export type ToolDefinition = NonNullable<CountPayload['tools']>[number];
+
+// Thrown for request bodies we can't turn into a countTokens call
+export class PayloadError extends Error {}
+
+// Pull a full Messages payload out of a JSON body. Returns null when the body
+// only carries plain `text`, and throws on a malformed payload.
+export function parseMessagesPayload(jsonData: Record<string, unknown>): CountPayload | null {
+    if (jsonData.messages === undefined) return null;
+
+    if (!Array.isArray(jsonData.messages) || jsonData.messages.length === 0) {
+        throw new PayloadError('`messages` must be a non-empty array');
+    }
+    for (const message of jsonData.messages) {
+        if (!message || (message.role !== 'user' && message.role !== 'assistant')) {
+            throw new PayloadError('Each message needs a `role` of "user" or "assistant"');
+        }
+        if (typeof message.content !== 'string' && !Array.isArray(message.content)) {
+            throw new PayloadError('Each message needs `content` as a string or an array of content blocks');
+        }
+    }
+    if (jsonData.system !== undefined && typeof jsonData.system !== 'string' && !Array.isArray(jsonData.system)) {
+        throw new PayloadError('`system` must be a string or an array of text blocks');
+    }
+    if (jsonData.tools !== undefined && !Array.isArray(jsonData.tools)) {
+        throw new PayloadError('`tools` must be an array');
+    }
+
+    const payload: CountPayload = {
+        messages: jsonData.messages as CountPayload['messages'],
+    };
+    if (jsonData.system !== undefined) payload.system = jsonData.system as CountPayload['system'];
+    if (jsonData.tools !== undefined) payload.tools = jsonData.tools as CountPayload['tools'];
+    if (jsonData.tool_choice !== undefined) payload.tool_choice = jsonData.tool_choice as CountPayload['tool_choice'];
+    if (jsonData.thinking !== undefined) payload.thinking = jsonData.thinking as ThinkingConfig;
+    return payload;
+}
+
+// Wrap plain text as the single user turn we count it as
+export function textPayload(text: string): CountPayload {
+    return {
+        messages: [{
+            role: 'user' as const,
+            content: text
+        }]
+    };
+}
+
+export type ContentBlock = Exclude<CountPayload['messages'][number]['content'], string>[number];
+
+// Wrap content blocks as a single user turn
+export function userTurnPayload(blocks: ContentBlock[]): CountPayload {
+    return {
+        messages: [{
+            role: 'user' as const,
+            content: blocks
+        }]
+    };
+}
+
+export function textBlock(text: string): ContentBlock {
+    return { type: 'text' as const, text };
+}
+
+export function pdfBlock(base64Content: string): ContentBlock {
+    return {
+        type: 'document' as const,
+        source: {
+            type: 'base64' as const,
+            media_type: 'application/pdf' as const,
+            data: base64Content
+        }
+    };
+}
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Ensure the media type is one of the supported formats, defaulting to JPEG
+// for any other format
+export function imageMediaType(mimeType: string): ImageMediaType {
+    if (mimeType === 'image/png') return 'image/png';
+    if (mimeType === 'image/gif') return 'image/gif';
+    if (mimeType === 'image/webp') return 'image/webp';
+    return 'image/jpeg';
+}
+
+export function imageBlock(base64Content: string, mediaType: ImageMediaType): ContentBlock {
+    return {
+        type: 'image' as const,
+        source: {
+            type: 'base64' as const,
+            media_type: mediaType,
+            data: base64Content
+        }
+    };
+}
+
+// Wrap a base64 PDF as a single document block
+export function pdfPayload(base64Content: string): CountPayload {
+    return userTurnPayload([pdfBlock(base64Content)]);
+}
+
+// Wrap a base64 image as a single image block
+export function imagePayload(base64Content: string, mediaType: ImageMediaType): CountPayload {
+    return userTurnPayload([imageBlock(base64Content, mediaType)]);
+}
+
+const anthropic = process.env.ANTHROPIC_API_KEY
+    ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+    : null;
+
+export interface ClaudeCount {
+    input_tokens: number;
+    // Whether the figure came from the result cache
+    cached: boolean;
+    // Set when the figure is a local estimate rather than an API count,
+    // good to within ± `margin` tokens
+    estimated?: true;
+    margin?: number;
+}
+
+// Set TOKEN_ESTIMATE_FALLBACK=off to have upstream failures reach the
+// client as errors instead of being papered over with an estimate
+const estimateOnFailure = process.env.TOKEN_ESTIMATE_FALLBACK !== 'off';
+
+// Failures the local estimate stands in for: the API can't be reached, or
+// is down or overloaded. Rate limits are retried in countClaudeTokens; bad
+// requests and a rejected key still fail, so the user hears about them
+// (`upstream_auth` for the key) rather than getting estimates.
+function isUpstreamFailure(error: unknown) {
+    return estimateOnFailure && (error instanceof Anthropic.APIConnectionError ||
+        (error instanceof Anthropic.APIError && (error.status ?? 0) >= 500));
+}
+
+// Retry settings for calls that hit the upstream rate limit
+const RATE_LIMIT_MAX_RETRIES = 4;
+const RATE_LIMIT_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run `fn`, retrying with backoff when Anthropic answers 429. Honors the
+// `retry-after` header when present.
+async function withRateLimitRetry<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (!(error instanceof Anthropic.APIError) || error.status !== 429 || attempt >= RATE_LIMIT_MAX_RETRIES) {
+                throw error;
+            }
+            const retryAfter = Number(error.headers?.['retry-after']);
+            const delay = Number.isFinite(retryAfter) && retryAfter > 0
+                ? retryAfter * 1000
+                : RATE_LIMIT_BASE_DELAY_MS * 2 ** attempt;
+            await sleep(delay);
+        }
+    }
+}
+
+async function estimateClaudeTokens(model: string, payload: CountPayload): Promise<ClaudeCount> {
+    const estimate = await estimatePayloadContent(model, payload);
+    return {
+        input_tokens: estimate.tokens + USER_TURN_FRAMING_TOKENS,
+        cached: false,
+        estimated: true,
+        margin: estimate.margin,
+    };
+}
+
+// The text of a plain single-turn text payload, the only kind saved for
+// calibrating the local estimate
+function plainText(payload: CountPayload): string | null {
+    const [message, ...rest] = payload.messages;
+    if (rest.length > 0 || payload.system || payload.tools || typeof message.content !== 'string') return null;
+    return message.content;
+}
+
+// Count a payload with the Anthropic API, going through the result cache.
+// Falls back to a local estimate when there's no key or the API is
+// unavailable. Each uncached call is charged to the requesting client's
+// rate limit.
+export async function countClaudeTokens(model: string, payload: CountPayload, betas: string[] = TOKEN_COUNTING_BETAS): Promise<ClaudeCount> {
+    if (!anthropic) return estimateClaudeTokens(model, payload);
+
+    try {
+        const { value, cached } = await withCache(
+            { provider: 'anthropic', model, contentType: 'messages', content: JSON.stringify({ payload, betas }) },
+            async () => {
+                await chargeUpstreamCall();
+                const count = await withRateLimitRetry(() => anthropic.beta.messages.countTokens({
+                    betas,
+                    model,
+                    ...payload
+                }));
+                return count.input_tokens;
+            }
+        );
+        // The loader above always yields a number; null only comes from the
+        // other providers' entries
+        if (typeof value !== 'number') {
+            throw new Error(`No Claude token count for ${model}`);
+        }
+        const text = plainText(payload);
+        if (text !== null && !cached) {
+            await recordCalibrationSample(model, text, value - USER_TURN_FRAMING_TOKENS);
+        }
+        return { input_tokens: value, cached };
+    } catch (error) {
+        if (!isUpstreamFailure(error)) throw error;
+        console.warn(`Token counting API unavailable for ${model}, using a local estimate:`, error instanceof Error ? error.message : error);
+        return estimateClaudeTokens(model, payload);
+    }
+}
+
+// The estimate marker and margin of a count, to spread into a result row
+export function estimateFields(count: ClaudeCount) {
+    return count.estimated ? { estimated: true as const, margin: count.margin } : {};
+}
+
+// The estimate marker for figures worked out from several counts (e.g. the
+// difference between two), with the widest of their margins
+export function combinedEstimateFields(counts: ClaudeCount[]) {
+    const estimated = counts.filter(count => count.estimated);
+    return estimated.length > 0
+        ? { estimated: true as const, margin: Math.max(...estimated.map(count => count.margin ?? 0)) }
+        : {};
+}
+
+// How many models a matrix count (or parts of a split payload) are queried at once
+const MODEL_FANOUT_CONCURRENCY = 4;
+
+// Count a payload that had to be split across several requests (e.g. a PDF
+// over the page limit) as if it were one. Every part carries its own user-turn
+// framing, so all but one copy comes off the total.
+export async function countClaudeTokensInParts(model: string, parts: CountPayload[], betas: string[] = TOKEN_COUNTING_BETAS): Promise<ClaudeCount> {
+    const counts = await mapWithConcurrency(parts, MODEL_FANOUT_CONCURRENCY, (part) =>
+        countClaudeTokens(model, part, betas)
+    );
+    const estimated = counts.filter(count => count.estimated);
+    return {
+        input_tokens: counts.reduce((sum, count) => sum + count.input_tokens, 0) - USER_TURN_FRAMING_TOKENS * (counts.length - 1),
+        cached: counts.every(count => count.cached),
+        ...(estimated.length > 0
+            ? { estimated: true as const, margin: estimated.reduce((sum, count) => sum + (count.margin ?? 0), 0) }
+            : {})
+    };
+}
+
+
+export interface ModelCount {
+    model: string;
+    input_tokens: number | null;
+    cached?: boolean;
+    estimated?: true;
+    margin?: number;
+    error?: string;
+}
+
+// Count the same payload against several models. A model that fails (e.g. it
+// doesn't support a content type) gets a null count rather than failing the
+// whole set. An array of payloads is counted as the parts of one.
+export function countAcrossModels(models: string[], payload: CountPayload | CountPayload[], betas: string[] = TOKEN_COUNTING_BETAS): Promise<ModelCount[]> {
+    return mapWithConcurrency(models, MODEL_FANOUT_CONCURRENCY, async (model) => {
+        try {
+            const count = Array.isArray(payload)
+                ? await countClaudeTokensInParts(model, payload, betas)
+                : await countClaudeTokens(model, payload, betas);
+            return { model, input_tokens: count.input_tokens, cached: count.cached, ...estimateFields(count) };
+        } catch (error) {
+            console.error(`Token counting error for ${model}:`, error);
+            return {
+                model,
+                input_tokens: null,
+                error: error instanceof Error ? error.message : 'Failed to count tokens'
+            };
+        }
+    });
+}
+
+// A comparison-provider count, null (with the reason) when that provider
+// couldn't count it
+export interface CachedCount {
+    tokens: number | null;
+    cached: boolean;
+    error?: ProviderError;
+}
+
+// Function to get GPT-4o token count
+export function getGPT4oTokenCount(text: string): Promise<CachedCount> {
+    let error: ProviderError | undefined;
+    return withCache({ provider: 'openai', model: COMPARISON_PROVIDERS.gpt4o.id, contentType: 'text', content: text }, async () => {
+        try {
+            // Use the 'gpt-4o' encoder which is used for GPT-4o as well
+            const encoder = encodingForModel('gpt-4o');
+            return encoder.encode(text).length;
+        } catch (err) {
+            console.error('GPT-4o tokenization error:', err);
+            error = providerError(COMPARISON_PROVIDERS.gpt4o.name, err);
+            return null;
+        }
+    }).then(({ value, cached }) => ({ tokens: value, cached, ...(error ? { error } : {}) }));
+}
+
+export function getGeminiTokenCount(text: string): Promise<CachedCount> {
+    let error: ProviderError | undefined;
+    return withCache({ provider: 'google', model: COMPARISON_PROVIDERS.gemini.id, contentType: 'text', content: text }, async () => {
+        try {
+            if (!process.env.GEMINI_API_KEY) {
+                error = { code: 'provider_unavailable', message: `${COMPARISON_PROVIDERS.gemini.name} counting isn't configured on this server` };
+                return null;
+            }
+
+            const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+            const model = genAI.getGenerativeModel({ model: COMPARISON_PROVIDERS.gemini.id });
+            
+            const result = await model.countTokens({
+                contents: [{ role: 'user', parts: [{ text }] }]
+            });
+            
+            return result.totalTokens;
+        } catch (err) {
+            console.error('Gemini tokenization error:', err);
+            // Failures without an HTTP status are network errors
+            error = providerError(COMPARISON_PROVIDERS.gemini.name, err, 'provider_unavailable');
+            return null;
+        }
+    }).then(({ value, cached }) => ({ tokens: value, cached, ...(error ? { error } : {}) }));
+}
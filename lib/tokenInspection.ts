@@ -0,0 +1,105 @@
+import { encodingForModel } from 'js-tiktoken';
+import { countClaudeTokens, textPayload, combinedEstimateFields } from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+// Claude boundaries cost one countTokens call per candidate piece, so only
+// the start of long inputs is inspected
+const MAX_CLAUDE_PIECES = 400;
+const CLAUDE_INSPECT_CONCURRENCY = 5;
+
+export interface InspectedToken {
+    text: string;
+    // Token IDs making up this span, when the tokenizer is local
+    ids?: number[];
+    // How many tokens the span holds; always 1 for exact tokenizers
+    count: number;
+}
+
+export interface TokenInspection {
+    tokenizer: string;
+    // True when boundaries are inferred rather than read off the tokenizer
+    approximate: boolean;
+    // True when only a prefix of the input was inspected
+    truncated: boolean;
+    inspectedChars: number;
+    tokens: InspectedToken[];
+    // Set when the prefix counts are local estimates, each good to within
+    // ± `margin`
+    estimated?: true;
+    margin?: number;
+}
+
+// Split text into GPT-4o tokens. A token that ends partway through a
+// multi-byte character is merged with the next one so every span decodes to
+// valid text.
+export function gpt4oSpans(text: string): InspectedToken[] {
+    const encoder = encodingForModel('gpt-4o');
+    const spans: InspectedToken[] = [];
+    let pending: number[] = [];
+
+    for (const id of encoder.encode(text)) {
+        pending.push(id);
+        const decoded = encoder.decode(pending);
+        if (!decoded.endsWith('�')) {
+            spans.push({ text: decoded, ids: pending, count: pending.length });
+            pending = [];
+        }
+    }
+    if (pending.length > 0) {
+        spans.push({ text: encoder.decode(pending), ids: pending, count: pending.length });
+    }
+    return spans;
+}
+
+export function inspectGPT4o(text: string): TokenInspection {
+    return {
+        tokenizer: 'gpt-4o',
+        approximate: false,
+        truncated: false,
+        inspectedChars: text.length,
+        tokens: gpt4oSpans(text),
+    };
+}
+
+// Claude's tokenizer isn't public, so boundaries are approximated: the text
+// is cut into candidate pieces (GPT-4o tokens), the prefix ending at each
+// piece is counted, and each piece gets however many tokens its prefix
+// added. Pieces that add nothing are folded into the previous span.
+export async function inspectClaude(text: string, model: string): Promise<TokenInspection> {
+    const allPieces = gpt4oSpans(text).map(span => span.text);
+    const pieces = allPieces.slice(0, MAX_CLAUDE_PIECES);
+
+    const prefixEnds: number[] = [];
+    let offset = 0;
+    for (const piece of pieces) {
+        offset += piece.length;
+        prefixEnds.push(offset);
+    }
+
+    const counts = await mapWithConcurrency(prefixEnds, CLAUDE_INSPECT_CONCURRENCY, (end) =>
+        countClaudeTokens(model, textPayload(text.slice(0, end)))
+    );
+    const prefixCounts = counts.map(count => count.input_tokens - USER_TURN_FRAMING_TOKENS);
+
+    const tokens: InspectedToken[] = [];
+    let previous = 0;
+    pieces.forEach((piece, i) => {
+        const added = prefixCounts[i] - previous;
+        previous = Math.max(previous, prefixCounts[i]);
+        if (added <= 0 && tokens.length > 0) {
+            tokens[tokens.length - 1].text += piece;
+        } else {
+            tokens.push({ text: piece, count: Math.max(1, added) });
+        }
+    });
+
+    return {
+        tokenizer: model,
+        approximate: true,
+        truncated: pieces.length < allPieces.length,
+        inspectedChars: offset,
+        tokens,
+        ...combinedEstimateFields(counts),
+    };
+}
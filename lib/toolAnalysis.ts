@@ -0,0 +1,109 @@
+import { encodingForModel } from 'js-tiktoken';
+import { CountPayload, ToolDefinition, countClaudeTokens, combinedEstimateFields } from '@/lib/tokenCounting';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+// How many countTokens calls a single analysis may have in flight
+const TOOL_ANALYSIS_CONCURRENCY = 4;
+
+// Stand-in conversation used when the caller doesn't supply one; tools can't
+// be counted on their own.
+const PLACEHOLDER_MESSAGES: CountPayload['messages'] = [{ role: 'user', content: 'Hi' }];
+
+export interface ToolFieldCost {
+    // `description` or `input_schema.properties.<name>`
+    path: string;
+    // Share of the tool's marginal tokens, apportioned locally (approximate)
+    approxTokens: number;
+}
+
+export interface ToolCost {
+    name: string;
+    // Tokens saved by dropping this tool from the full set
+    tokens: number;
+    fields: ToolFieldCost[];
+}
+
+export interface ToolAnalysis {
+    model: string;
+    // Count for the whole request with every tool included
+    totalTokens: number;
+    // Count for the same request with no tools at all
+    baselineTokens: number;
+    // Tokens that only show up when tools are present but don't belong to
+    // any one tool (the tool-use system prompt and framing)
+    toolOverheadTokens: number;
+    tools: ToolCost[];
+    // Set when the counts are local estimates, each good to within ± `margin`
+    estimated?: true;
+    margin?: number;
+}
+
+const toolName = (tool: ToolDefinition, index: number) =>
+    typeof tool.name === 'string' ? tool.name : `tool_${index}`;
+
+// Split a tool's marginal cost across its description and top-level schema
+// properties. The API only gives us whole-request counts, so we use the
+// GPT-4o encoder as a local proxy for relative size.
+function apportionFields(tool: ToolDefinition, tokens: number): ToolFieldCost[] {
+    const parts: { path: string; json: string }[] = [];
+    if ('description' in tool && typeof tool.description === 'string') {
+        parts.push({ path: 'description', json: tool.description });
+    }
+    const properties = 'input_schema' in tool ? tool.input_schema?.properties : undefined;
+    if (properties && typeof properties === 'object') {
+        for (const [name, schema] of Object.entries(properties as Record<string, unknown>)) {
+            parts.push({ path: `input_schema.properties.${name}`, json: JSON.stringify({ [name]: schema }) });
+        }
+    }
+    if (parts.length === 0) return [];
+
+    const encoder = encodingForModel('gpt-4o');
+    const sizes = parts.map(part => encoder.encode(part.json).length);
+    const totalSize = sizes.reduce((sum, size) => sum + size, 0) || 1;
+
+    return parts
+        .map((part, i) => ({ path: part.path, approxTokens: Math.round((sizes[i] / totalSize) * tokens) }))
+        .sort((a, b) => b.approxTokens - a.approxTokens);
+}
+
+// Work out what each tool definition adds to a request. Each tool's cost is
+// the difference between counting with all tools and with all but that one;
+// whatever is left over after subtracting the no-tools baseline and every
+// tool's marginal cost is reported as shared tool-use overhead.
+export async function analyzeTools(
+    model: string,
+    tools: ToolDefinition[],
+    base: Omit<CountPayload, 'tools' | 'tool_choice'> = { messages: PLACEHOLDER_MESSAGES }
+): Promise<ToolAnalysis> {
+    const [total, baseline] = await Promise.all([
+        countClaudeTokens(model, { ...base, tools }),
+        countClaudeTokens(model, base),
+    ]);
+
+    // With a single tool, "all but this one" is the no-tools baseline, so its
+    // cost absorbs the overhead.
+    const withoutEach = tools.length > 1
+        ? await mapWithConcurrency(tools, TOOL_ANALYSIS_CONCURRENCY, (_, index) =>
+            countClaudeTokens(model, { ...base, tools: tools.filter((__, i) => i !== index) }))
+        : [baseline];
+
+    const toolCosts = tools.map((tool, index) => {
+        const tokens = Math.max(0, total.input_tokens - withoutEach[index].input_tokens);
+        return {
+            name: toolName(tool, index),
+            tokens,
+            fields: apportionFields(tool, tokens),
+        };
+    });
+
+    const marginalSum = toolCosts.reduce((sum, tool) => sum + tool.tokens, 0);
+
+    return {
+        model,
+        totalTokens: total.input_tokens,
+        baselineTokens: baseline.input_tokens,
+        toolOverheadTokens: Math.max(0, total.input_tokens - baseline.input_tokens - marginalSum),
+        tools: toolCosts.sort((a, b) => b.tokens - a.tokens),
+        ...combinedEstimateFields([total, baseline, ...withoutEach]),
+    };
+}
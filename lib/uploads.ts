@@ -0,0 +1,223 @@
+import {
+    ContentBlock,
+    textBlock,
+    pdfBlock,
+    imageBlock,
+    imageMediaType,
+    userTurnPayload,
+    countClaudeTokens,
+    estimateFields,
+    TOKEN_COUNTING_BETAS,
+    PDF_BETAS,
+} from '@/lib/tokenCounting';
+import { USER_TURN_FRAMING_TOKENS } from '@/lib/framing';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { ExtractionMethod, extractionMethod, extractText } from '@/lib/extraction';
+import { ImageConversion, prepareImage, apiMediaType } from '@/lib/imageConversion';
+import { ImageDimensions, ImageFormat, estimateImageTokens } from '@/lib/imageEstimate';
+import { sniffFileKind, decodeText } from '@/lib/contentSniffing';
+
+// How many files of a multi-file upload are counted individually at once
+const PER_FILE_CONCURRENCY = 4;
+
+// How much extracted text is echoed back so the UI can show what was counted
+export const EXTRACTION_PREVIEW_CHARS = 2000;
+
+export type UploadKind = 'pdf' | 'image' | 'text';
+
+// Thrown when an upload's bytes don't match a type we can count: a "PDF"
+// that isn't one, or binary data sent as text
+export class UploadTypeError extends Error {}
+
+export interface Upload {
+    name: string;
+    kind: UploadKind;
+    mimeType: string;
+    content: Uint8Array;
+    // Set when `content` is text extracted from a document; `raw` holds the
+    // file as uploaded
+    extraction?: {
+        method: ExtractionMethod;
+        raw: Uint8Array;
+    };
+    // Set when an image was re-encoded or downscaled before counting; `raw`
+    // holds the file as uploaded
+    conversion?: ImageConversion & {
+        raw: Uint8Array;
+    };
+}
+
+export interface UploadCount {
+    name: string;
+    fileType: UploadKind;
+    bytes: number;
+    extraction?: ExtractionMethod;
+    input_tokens: number | null;
+    cached?: boolean;
+    estimated?: true;
+    margin?: number;
+    error?: string;
+}
+
+// An image's count as uploaded next to its count as sent
+export interface ConversionCount {
+    name: string;
+    originalFormat: ImageFormat;
+    mediaType: string;
+    original: ImageDimensions | null;
+    converted: ImageDimensions | null;
+    reencoded: boolean;
+    downscaled: boolean;
+    originalTokens: number | null;
+    // The API doesn't take the original format, so its count is the offline
+    // estimate
+    originalEstimated: boolean;
+    convertedTokens: number | null;
+    // Whether the API counts above are local estimates
+    estimated?: true;
+    error?: string;
+}
+
+export interface ReadUploadsOptions {
+    // Scale images over the model's maximum dimensions down before counting
+    downscaleImages?: boolean;
+}
+
+// Work out what each uploaded file is. PDFs and images are recognised from
+// their bytes, whatever `fileType` the client sent alongside, except that a
+// file sent as text that reads as text stays text; a file sent as a PDF or
+// image that isn't one is rejected. Anything else is treated as
+// text, with Office documents and HTML replaced by the text extracted from
+// them. Throws ExtractionError for a document that can't be read,
+// ImageFormatError for an image that can't be converted to a format the API
+// takes, and UploadTypeError for anything else that can't be counted.
+export async function readUploads(files: File[], fileTypes: string[], options: ReadUploadsOptions = {}): Promise<Upload[]> {
+    return Promise.all(files.map(async (file, i): Promise<Upload> => {
+        const fileType = fileTypes[i];
+        const content = new Uint8Array(await file.arrayBuffer());
+        const sniffed = sniffFileKind(content);
+        if (sniffed === 'pdf' || fileType === 'pdf') {
+            if (sniffed !== 'pdf') {
+                throw new UploadTypeError(`${file.name} is not a PDF`);
+            }
+            return { name: file.name, kind: 'pdf', mimeType: 'application/pdf', content };
+        }
+        // Image signatures are only a few bytes long, and real images never
+        // decode as text
+        const image = sniffed === 'image' && !(fileType === 'text' && decodeText(content) !== null);
+        if (image || fileType === 'image') {
+            const prepared = await prepareImage(content, options.downscaleImages);
+            return {
+                name: file.name,
+                kind: 'image',
+                mimeType: prepared.mediaType,
+                content: prepared.content,
+                ...(prepared.conversion ? { conversion: { ...prepared.conversion, raw: content } } : {}),
+            };
+        }
+
+        const method = extractionMethod(file.name, file.type);
+        if (!method) {
+            if (decodeText(content) === null) {
+                throw new UploadTypeError(`${file.name} looks like a binary file, so it can't be counted as text`);
+            }
+            return { name: file.name, kind: 'text' as const, mimeType: file.type, content };
+        }
+        return {
+            name: file.name,
+            kind: 'text' as const,
+            mimeType: 'text/plain',
+            content: new TextEncoder().encode(extractText(method, content)),
+            extraction: { method, raw: content },
+        };
+    }));
+}
+
+export function uploadText(upload: Upload) {
+    return new TextDecoder().decode(upload.content);
+}
+
+// The file as uploaded, for documents whose raw form is itself text (HTML
+// markup). Null for binary formats and files counted as-is.
+export function uploadRawText(upload: Upload): string | null {
+    if (upload.extraction?.method !== 'html') return null;
+    return new TextDecoder().decode(upload.extraction.raw);
+}
+
+export function uploadBlock(upload: Upload): ContentBlock {
+    const base64Content = () => Buffer.from(upload.content).toString('base64');
+    switch (upload.kind) {
+        case 'pdf':
+            return pdfBlock(base64Content());
+        case 'image':
+            return imageBlock(base64Content(), imageMediaType(upload.mimeType));
+        default:
+            return textBlock(uploadText(upload));
+    }
+}
+
+export function uploadBetas(uploads: Upload[]) {
+    return uploads.some(upload => upload.kind === 'pdf') ? PDF_BETAS : TOKEN_COUNTING_BETAS;
+}
+
+// Count each upload on its own, as the only block of a user turn
+export function countUploads(model: string, uploads: Upload[]): Promise<UploadCount[]> {
+    return mapWithConcurrency(uploads, PER_FILE_CONCURRENCY, async (upload) => {
+        const base = {
+            name: upload.name,
+            fileType: upload.kind,
+            bytes: (upload.extraction?.raw ?? upload.conversion?.raw ?? upload.content).length,
+            ...(upload.extraction ? { extraction: upload.extraction.method } : {}),
+        };
+        try {
+            const count = await countClaudeTokens(model, userTurnPayload([uploadBlock(upload)]), uploadBetas([upload]));
+            return { ...base, input_tokens: count.input_tokens, cached: count.cached, ...estimateFields(count) };
+        } catch (error) {
+            console.error(`Token counting error for ${upload.name}:`, error);
+            return {
+                ...base,
+                input_tokens: null,
+                error: error instanceof Error ? error.message : 'Failed to count tokens'
+            };
+        }
+    });
+}
+
+// Count a content-only image block, less the user-turn framing
+async function countImage(model: string, content: Uint8Array, mediaType: string) {
+    const block = imageBlock(Buffer.from(content).toString('base64'), imageMediaType(mediaType));
+    const count = await countClaudeTokens(model, userTurnPayload([block]), TOKEN_COUNTING_BETAS);
+    return { tokens: Math.max(0, count.input_tokens - USER_TURN_FRAMING_TOKENS), estimated: count.estimated };
+}
+
+// For each converted image, count it as sent and as uploaded. Originals in a
+// format the API doesn't take fall back to the offline estimate.
+export function countConversions(model: string, uploads: Upload[]): Promise<ConversionCount[]> {
+    const converted = uploads.filter(upload => upload.conversion);
+    return mapWithConcurrency(converted, PER_FILE_CONCURRENCY, async (upload) => {
+        const { raw, ...conversion } = upload.conversion!;
+        const originalType = apiMediaType(conversion.originalFormat);
+        const estimate = conversion.original ? estimateImageTokens(conversion.original).tokens : null;
+        const base = { name: upload.name, ...conversion, originalEstimated: !originalType };
+        try {
+            const [convertedCount, originalCount] = await Promise.all([
+                countImage(model, upload.content, upload.mimeType),
+                originalType ? countImage(model, raw, originalType) : null,
+            ]);
+            return {
+                ...base,
+                originalTokens: originalCount?.tokens ?? estimate,
+                convertedTokens: convertedCount.tokens,
+                ...(convertedCount.estimated || originalCount?.estimated ? { estimated: true as const } : {}),
+            };
+        } catch (error) {
+            console.error(`Token counting error for converted image ${upload.name}:`, error);
+            return {
+                ...base,
+                originalTokens: originalType ? null : estimate,
+                convertedTokens: null,
+                error: error instanceof Error ? error.message : 'Failed to count tokens'
+            };
+        }
+    });
+}
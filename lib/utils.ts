@@ -4,3 +4,17 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Format a dollar amount. Uses more decimal places for very small values so
+// the figure doesn't just display as "$0.00".
+export function formatDollars(cost: number): string {
+  if (cost === 0) return "$0.00"
+  if (cost < 0.01) return `$${cost.toFixed(5)}`
+  if (cost < 1) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+// Format a token-based cost estimate as a dollar amount
+export function formatCost(tokens: number, pricePerMTok: number): string {
+  return formatDollars((tokens / 1_000_000) * pricePerMTok)
+}
@@ -0,0 +1,29 @@
+// Production server: `next start` plus the one thing route handlers can't
+// do for themselves, pinning down the client's address for rate limiting.
+// Next fills in x-forwarded-for from the socket only when a request doesn't
+// already carry one, so unless TRUST_PROXY says a proxy in front sets it,
+// forwarding headers sent by clients are dropped first.
+//
+//   PORT (default 3000), HOSTNAME (default 0.0.0.0)
+//   TRUST_PROXY=<n>   n proxies in front of the app append to x-forwarded-for
+
+import { createServer } from 'http';
+import next from 'next';
+
+const port = Number(process.env.PORT) || 3000;
+const hostname = process.env.HOSTNAME || '0.0.0.0';
+const trustProxy = Number(process.env.TRUST_PROXY) > 0;
+
+const app = next({ dev: false, hostname, port });
+const handle = app.getRequestHandler();
+await app.prepare();
+
+createServer((req, res) => {
+    if (!trustProxy) {
+        delete req.headers['x-forwarded-for'];
+        delete req.headers['x-real-ip'];
+    }
+    handle(req, res);
+}).listen(port, hostname, () => {
+    console.log(`Ready on http://${hostname}:${port}`);
+});